@@ -1,354 +1,317 @@
 import { type NextRequest, NextResponse } from "next/server"
-import JSZip from "jszip"
+import { makeZip } from "client-zip"
+import { composeCubemapExport, createCubemapExportConfig, resolveCubemapExport } from "@/lib/panorama/cubemap-export"
+import { createEnvironmentConfig, environmentFiles } from "@/lib/panorama/environment"
+import { resolveTileEncoding, type TileEncoding } from "@/lib/panorama/formats"
+import { applyGPano, type GPanoMetadata } from "@/lib/panorama/gpano"
+import { decodeHDR, decodeHDRSource, detectHDRFormat, linearizeImage } from "@/lib/panorama/hdr"
+import {
+  DEFAULT_ENVIRONMENT_FACE_FORMAT,
+  DEFAULT_TILE_TARGET,
+  conversionOptionsSchema,
+  formatOptionsError,
+  type ConversionOptions,
+} from "@/lib/panorama/options"
+import { KRPANO_TOUR_FILE, createKrpanoTourXml } from "@/lib/panorama/krpano"
+import {
+  MARZIPANO_DATA_FILE,
+  MARZIPANO_INDEX_FILE,
+  MARZIPANO_PREVIEW_ENCODING,
+  MARZIPANO_PREVIEW_FILE,
+  MARZIPANO_SCRIPT_FILE,
+  createMarzipanoData,
+  createMarzipanoIndexHtml,
+  createMarzipanoPreview,
+  hasMarzipanoPreview,
+  hasMarzipanoProject,
+  marzipanoDataScript,
+  marzipanoSceneNameFromUrl,
+} from "@/lib/panorama/marzipano"
+import { patchNadir } from "@/lib/panorama/nadir"
+import { decodeImage, encodeTile } from "@/lib/panorama/node-image"
+import { generateCubeFace, type FaceName, type FloatImage, type RGBAImage } from "@/lib/panorama/projection"
+import { REGIONS_FILE, compileRegions, regionsRecord } from "@/lib/panorama/regions"
+import {
+  computeTileConfigs,
+  countTiles,
+  createCubemapConfig,
+  faceTiles,
+  tileFilePath,
+  type SourceInfo,
+  type TileConfig,
+} from "@/lib/panorama/tiles"
+import { readMarzipanoScript } from "@/lib/panorama/viewer-assets"
+
+// sharp needs the Node.js runtime
+export const runtime = "nodejs"
+
+interface ZipEntry {
+  name: string
+  input: Uint8Array | string
+}
 
-interface TileConfig {
-  tileSize: number
-  size: number
-  fallbackOnly?: boolean
+// Lets the URL converter show what was read from the file's XMP
+function gpanoHeaders(gpano: GPanoMetadata | null | undefined): Record<string, string> {
+  return gpano ? { "X-GPano": JSON.stringify(gpano) } : {}
 }
 
-class ServerPanoramaConverter {
-  private tileConfigs: TileConfig[] = [
-    { tileSize: 256, size: 256, fallbackOnly: true },
-    { tileSize: 512, size: 512 },
-    { tileSize: 512, size: 1024 },
-    { tileSize: 512, size: 2048 },
-  ]
+// Records which privacy regions were redacted, when there were any
+function* regionsEntry(options: ConversionOptions): Generator<ZipEntry> {
+  const record = regionsRecord(options)
+  if (record) {
+    yield { name: REGIONS_FILE, input: JSON.stringify(record, null, 2) }
+  }
+}
 
-  private faceNames = ["r", "l", "u", "d", "f", "b"] // right, left, up, down, front, back
+// The status and headers are sent before the first entry is written, so a failure mid-stream cannot become an
+// error response. Erroring the stream aborts the download, where ending it would hand over a truncated ZIP.
+function streamZip(entries: AsyncIterable<ZipEntry>): ReadableStream<Uint8Array> {
+  const reader = makeZip(entries).getReader()
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { done, value } = await reader.read()
+        if (done) {
+          controller.close()
+        } else {
+          controller.enqueue(value)
+        }
+      } catch (error) {
+        console.error("[v0] Error while streaming the ZIP:", error)
+        controller.error(error)
+      }
+    },
+    cancel(reason) {
+      return reader.cancel(reason)
+    },
+  })
+}
 
-  async convertFromUrl(imageUrl: string): Promise<{
-    zipBuffer: Buffer
+class ServerPanoramaConverter {
+  async convertFromUrl(imageUrl: string, options: ConversionOptions = {}): Promise<{
+    zipStream: ReadableStream<Uint8Array>
     totalTiles: number
     zoomLevels: number
     maxZoom: number
+    tileConfigs: TileConfig[]
+    encoding: TileEncoding
+    gpano: GPanoMetadata | null
   }> {
     console.log("[v0] Starting conversion for URL:", imageUrl)
 
     try {
-      const response = await fetch(imageUrl)
-      if (!response.ok) {
-        throw new Error(`Failed to fetch image: ${response.status} ${response.statusText}`)
-      }
-
-      console.log("[v0] Image fetched successfully, content-type:", response.headers.get("content-type"))
+      const imageBuffer = await this.fetchImage(imageUrl)
+      const { source, sourceInfo } = await this.decodeSource(imageBuffer, options)
+      const nadirLogo = await this.loadNadirLogo(options)
+      // Faces are only projected while the response streams, so bad regions have to fail here
+      compileRegions(options.regions)
 
-      const imageBuffer = await response.arrayBuffer()
-      console.log("[v0] Image buffer size:", imageBuffer.byteLength)
-
-      const imageBlob = new Blob([imageBuffer])
-
-      if (typeof OffscreenCanvas === "undefined") {
-        throw new Error("OffscreenCanvas is not available in this environment")
-      }
-
-      const canvas = new OffscreenCanvas(1, 1)
-      const ctx = canvas.getContext("2d")
-
-      if (!ctx) {
-        throw new Error("Failed to get 2D context from OffscreenCanvas")
-      }
-
-      console.log("[v0] Creating ImageBitmap...")
-
-      let imageBitmap: ImageBitmap
-      try {
-        imageBitmap = await createImageBitmap(imageBlob)
-        console.log("[v0] ImageBitmap created successfully, dimensions:", imageBitmap.width, "x", imageBitmap.height)
-      } catch (error) {
-        console.error("[v0] Failed to create ImageBitmap:", error)
-        throw new Error(`Failed to create ImageBitmap: ${error instanceof Error ? error.message : "Unknown error"}`)
+      const sceneName = marzipanoSceneNameFromUrl(imageUrl)
+      return {
+        ...(await this.processImage(source, sourceInfo, options, nadirLogo, sceneName)),
+        gpano: sourceInfo.gpano ?? null,
       }
-
-      const result = await this.processImage(imageBitmap)
-      console.log("[v0] Conversion completed successfully")
-      return result
     } catch (error) {
       console.error("[v0] Error in convertFromUrl:", error)
       throw error
     }
   }
 
-  private async processImage(img: ImageBitmap): Promise<{
-    zipBuffer: Buffer
-    totalTiles: number
-    zoomLevels: number
-    maxZoom: number
-  }> {
-    console.log("[v0] Processing image with dimensions:", img.width, "x", img.height)
-
-    const width = img.width
-    const height = img.height
-
-    const maxZoom = this.tileConfigs.length - 1
-    const zoomLevels = maxZoom + 1
-
-    const tiles: { [key: string]: Buffer } = {}
-    let totalTiles = 0
-
-    for (let z = 0; z <= maxZoom; z++) {
-      const config = this.tileConfigs[z]
-      const tilesPerSide = Math.ceil(config.size / config.tileSize)
-      totalTiles += 6 * tilesPerSide * tilesPerSide
+  // Keeps HDR sources in float all the way through; 8-bit sources are linearised from sRGB
+  async convertEnvironmentFromUrl(
+    imageUrl: string,
+    options: ConversionOptions = {},
+  ): Promise<{ zipStream: ReadableStream<Uint8Array>; config: ReturnType<typeof createEnvironmentConfig> }> {
+    console.log("[v0] Starting environment cubemap conversion for URL:", imageUrl)
+
+    const imageBuffer = await this.fetchImage(imageUrl)
+    const hdrFormat = detectHDRFormat(imageBuffer)
+    let source: FloatImage
+    let sourceInfo: SourceInfo
+    if (hdrFormat) {
+      source = decodeHDR(imageBuffer)
+      sourceInfo = { width: source.width, height: source.height, hdrFormat }
+    } else {
+      // GPano crops are placed while still 8-bit, so fill colours stay sRGB
+      const decoded = await this.decodeSource(imageBuffer, options)
+      source = linearizeImage(decoded.source)
+      sourceInfo = decoded.sourceInfo
     }
+    console.log("[v0] Image decoded successfully, dimensions:", source.width, "x", source.height)
+    compileRegions(options.regions)
 
-    console.log("[v0] Will generate", totalTiles, "tiles across", zoomLevels, "zoom levels")
-
-    try {
-      for (let z = 0; z <= maxZoom; z++) {
-        console.log("[v0] Processing zoom level", z)
-        const config = this.tileConfigs[z]
-        const tilesPerSide = Math.ceil(config.size / config.tileSize)
-        const faceSize = config.size
-
-        // Generate each cube face
-        for (let face = 0; face < 6; face++) {
-          console.log("[v0] Generating face", face, "for zoom level", z)
-          const faceImageData = await this.generateCubeFace(img, face, faceSize)
-          const faceName = this.faceNames[face]
-
-          // Split face into tiles
-          for (let y = 0; y < tilesPerSide; y++) {
-            for (let x = 0; x < tilesPerSide; x++) {
-              const tileBuffer = await this.createTile(faceImageData, x, y, config, faceSize)
-              const tileKey = `${z}/${faceName}/${y}/${x}`
-              tiles[tileKey] = tileBuffer
-            }
-          }
-        }
-      }
-
-      console.log("[v0] All tiles generated, creating ZIP file...")
-      const zipBuffer = await this.createZipFile(tiles)
-      console.log("[v0] ZIP file created, size:", zipBuffer.length)
-
-      return {
-        zipBuffer,
-        totalTiles,
-        zoomLevels,
-        maxZoom,
+    const entries = async function* (): AsyncGenerator<ZipEntry> {
+      for (const file of environmentFiles(source, sourceInfo, options)) {
+        yield { name: file.name, input: file.data }
       }
-    } catch (error) {
-      console.error("[v0] Error in processImage:", error)
-      throw error
     }
-  }
 
-  private async generateCubeFace(img: ImageBitmap, face: number, size: number): Promise<ImageData> {
-    try {
-      const canvas = new OffscreenCanvas(size, size)
-      const ctx = canvas.getContext("2d")!
-
-      const sourceCanvas = new OffscreenCanvas(img.width, img.height)
-      const sourceCtx = sourceCanvas.getContext("2d")!
-      sourceCtx.drawImage(img, 0, 0)
-      const imgData = sourceCtx.getImageData(0, 0, img.width, img.height)
-
-      const faceData = ctx.createImageData(size, size)
-
-      for (let y = 0; y < size; y++) {
-        for (let x = 0; x < size; x++) {
-          const [u, v] = this.faceUVToEquirectangular(face, x / size, y / size)
-          const pixel = this.sampleEquirectangularBilinear(imgData, u, v, img.width, img.height)
-
-          const idx = (y * size + x) * 4
-          faceData.data[idx] = pixel[0]
-          faceData.data[idx + 1] = pixel[1]
-          faceData.data[idx + 2] = pixel[2]
-          faceData.data[idx + 3] = 255
-        }
-      }
-
-      return faceData
-    } catch (error) {
-      console.error("[v0] Error generating cube face", face, ":", error)
-      throw error
-    }
+    return { zipStream: streamZip(entries()), config: createEnvironmentConfig(sourceInfo, options) }
   }
 
-  private async createTile(
-    faceImageData: ImageData,
-    tileX: number,
-    tileY: number,
-    config: TileConfig,
-    faceSize: number,
-  ): Promise<Buffer> {
-    try {
-      const canvas = new OffscreenCanvas(config.tileSize, config.tileSize)
-      const ctx = canvas.getContext("2d")!
-
-      const sourceX = tileX * config.tileSize
-      const sourceY = tileY * config.tileSize
-      const sourceWidth = Math.min(config.tileSize, faceSize - sourceX)
-      const sourceHeight = Math.min(config.tileSize, faceSize - sourceY)
-
-      // Extract tile data from face
-      const tileData = ctx.createImageData(config.tileSize, config.tileSize)
-
-      for (let i = 0; i < tileData.data.length; i += 4) {
-        tileData.data[i] = 0 // R
-        tileData.data[i + 1] = 0 // G
-        tileData.data[i + 2] = 0 // B
-        tileData.data[i + 3] = 255 // A
-      }
+  // Packed layouts need every face before the first image can be written, so all six are projected up front
+  async convertCubemapFromUrl(
+    imageUrl: string,
+    options: ConversionOptions = {},
+  ): Promise<{
+    zipStream: ReadableStream<Uint8Array>
+    config: ReturnType<typeof createCubemapExportConfig>
+    encoding: TileEncoding
+  }> {
+    console.log("[v0] Starting cubemap image conversion for URL:", imageUrl)
 
-      for (let y = 0; y < sourceHeight; y++) {
-        for (let x = 0; x < sourceWidth; x++) {
-          const sourceIdx = ((sourceY + y) * faceSize + (sourceX + x)) * 4
-          const tileIdx = (y * config.tileSize + x) * 4
-
-          if (sourceIdx >= 0 && sourceIdx < faceImageData.data.length - 3) {
-            tileData.data[tileIdx] = faceImageData.data[sourceIdx]
-            tileData.data[tileIdx + 1] = faceImageData.data[sourceIdx + 1]
-            tileData.data[tileIdx + 2] = faceImageData.data[sourceIdx + 2]
-            tileData.data[tileIdx + 3] = faceImageData.data[sourceIdx + 3]
-          }
-        }
-      }
+    const imageBuffer = await this.fetchImage(imageUrl)
+    const { source, sourceInfo } = await this.decodeSource(imageBuffer, options)
+    const nadirLogo = await this.loadNadirLogo(options)
 
-      ctx.putImageData(tileData, 0, 0)
+    const settings = resolveCubemapExport(source.width, options)
+    const config = createCubemapExportConfig(sourceInfo, options)
+    const encoding = resolveTileEncoding(options)
+    const faces = [0, 1, 2, 3, 4, 5].map((face) =>
+      patchNadir(generateCubeFace(source, face, settings.faceSize, options), face, options, nadirLogo),
+    )
 
-      let blob: Blob
-      try {
-        blob = await canvas.convertToBlob({ type: "image/jpeg", quality: 1.0 })
-      } catch (error) {
-        console.error("[v0] Error converting canvas to blob:", error)
-        // Fallback: try with lower quality
-        blob = await canvas.convertToBlob({ type: "image/jpeg", quality: 0.9 })
+    const entries = async function* (): AsyncGenerator<ZipEntry> {
+      yield { name: "config.json", input: JSON.stringify(config, null, 2) }
+      yield* regionsEntry(options)
+      for (const { name, image } of composeCubemapExport(faces, settings)) {
+        yield { name: `${name}.${encoding.extension}`, input: await encodeTile(image, encoding) }
       }
-
-      return Buffer.from(await blob.arrayBuffer())
-    } catch (error) {
-      console.error("[v0] Error creating tile:", error)
-      throw error
     }
+
+    return { zipStream: streamZip(entries()), config, encoding }
   }
 
-  private faceUVToEquirectangular(face: number, u: number, v: number): [number, number] {
-    let x: number, y: number, z: number
-
-    const uc = 2 * u - 1
-    const vc = 2 * v - 1
-
-    switch (face) {
-      case 0: // Right (+X)
-        x = 1
-        y = -vc
-        z = -uc
-        break
-      case 1: // Left (-X)
-        x = -1
-        y = -vc
-        z = uc
-        break
-      case 2: // Up (+Y)
-        x = uc
-        y = 1
-        z = vc
-        break
-      case 3: // Down (-Y)
-        x = uc
-        y = -1
-        z = -vc
-        break
-      case 4: // Front (+Z)
-        x = uc
-        y = -vc
-        z = 1
-        break
-      case 5: // Back (-Z)
-        x = -uc
-        y = -vc
-        z = -1
-        break
-      default:
-        x = y = z = 0
+  // HDR sources are tone-mapped to 8-bit; cropped GPano panoramas are placed on the full sphere
+  private async decodeSource(
+    imageBuffer: ArrayBuffer,
+    options: ConversionOptions,
+  ): Promise<{ source: RGBAImage; sourceInfo: SourceInfo }> {
+    const hdrFormat = detectHDRFormat(imageBuffer)
+    console.log("[v0] Decoding image...", hdrFormat ? `(HDR: ${hdrFormat})` : "")
+    const decoded = hdrFormat ? decodeHDRSource(imageBuffer, options) : await decodeImage(imageBuffer)
+    const { image: source, gpano } = applyGPano(decoded, imageBuffer, options)
+    console.log("[v0] Image decoded successfully, dimensions:", source.width, "x", source.height)
+    if (gpano) {
+      console.log("[v0] GPano crop:", gpano.croppedAreaWidth, "x", gpano.croppedAreaHeight, "of", gpano.fullPanoWidth)
     }
 
-    const theta = Math.atan2(z, x)
-    const phi = Math.acos(y / Math.sqrt(x * x + y * y + z * z))
-
-    const eqU = (theta + Math.PI) / (2 * Math.PI)
-    const eqV = phi / Math.PI
+    return { source, sourceInfo: { width: source.width, height: source.height, hdrFormat, gpano } }
+  }
 
-    return [eqU, eqV]
+  private async loadNadirLogo(options: ConversionOptions): Promise<RGBAImage | null> {
+    if (options.nadirPatch !== "logo" || !options.nadirLogoUrl) {
+      return null
+    }
+    console.log("[v0] Fetching nadir logo:", options.nadirLogoUrl)
+    return decodeImage(await this.fetchImage(options.nadirLogoUrl))
   }
 
-  private sampleEquirectangularBilinear(
-    imgData: ImageData,
-    u: number,
-    v: number,
-    width: number,
-    height: number,
-  ): [number, number, number] {
-    u = Math.max(0, Math.min(1, u))
-    v = Math.max(0, Math.min(1, v))
-
-    const x = u * (width - 1)
-    const y = v * (height - 1)
-
-    const x1 = Math.floor(x)
-    const y1 = Math.floor(y)
-    const x2 = Math.min(x1 + 1, width - 1)
-    const y2 = Math.min(y1 + 1, height - 1)
-
-    const fx = x - x1
-    const fy = y - y1
-
-    const getPixel = (px: number, py: number): [number, number, number] => {
-      const idx = (py * width + px) * 4
-      return [imgData.data[idx], imgData.data[idx + 1], imgData.data[idx + 2]]
+  private async fetchImage(imageUrl: string): Promise<ArrayBuffer> {
+    const response = await fetch(imageUrl)
+    if (!response.ok) {
+      throw new Error(`Failed to fetch image: ${response.status} ${response.statusText}`)
     }
 
-    const p11 = getPixel(x1, y1)
-    const p21 = getPixel(x2, y1)
-    const p12 = getPixel(x1, y2)
-    const p22 = getPixel(x2, y2)
+    console.log("[v0] Image fetched successfully, content-type:", response.headers.get("content-type"))
 
-    const interpolate = (c1: number, c2: number, c3: number, c4: number): number => {
-      const i1 = c1 * (1 - fx) + c2 * fx
-      const i2 = c3 * (1 - fx) + c4 * fx
-      return i1 * (1 - fy) + i2 * fy
-    }
+    const imageBuffer = await response.arrayBuffer()
+    console.log("[v0] Image buffer size:", imageBuffer.byteLength)
+    return imageBuffer
+  }
 
-    return [
-      Math.round(interpolate(p11[0], p21[0], p12[0], p22[0])),
-      Math.round(interpolate(p11[1], p21[1], p12[1], p22[1])),
-      Math.round(interpolate(p11[2], p21[2], p12[2], p22[2])),
-    ]
+  // Nothing is projected here: tiles are generated and encoded one at a time as the response stream
+  // pulls them, so peak memory stays around one face plus one tile whatever the pyramid size. The other
+  // files are written up front, so their errors still reach the client as an error response.
+  private async processImage(
+    source: RGBAImage,
+    sourceInfo: SourceInfo,
+    options: ConversionOptions,
+    nadirLogo: RGBAImage | null,
+    sceneName: string,
+  ): Promise<{
+    zipStream: ReadableStream<Uint8Array>
+    totalTiles: number
+    zoomLevels: number
+    maxZoom: number
+    tileConfigs: TileConfig[]
+    encoding: TileEncoding
+  }> {
+    console.log("[v0] Processing image with dimensions:", source.width, "x", source.height)
+
+    const tileConfigs = computeTileConfigs(source.width, options)
+    const totalTiles = countTiles(tileConfigs)
+    const encoding = resolveTileEncoding(options)
+    console.log("[v0] Tile levels:", tileConfigs.map((config) => config.size).join(", "))
+    const files = await this.configEntries(sourceInfo, tileConfigs, options, encoding, sceneName)
+
+    return {
+      zipStream: streamZip(this.zipEntries(files, source, tileConfigs, options, encoding, nadirLogo)),
+      totalTiles,
+      zoomLevels: tileConfigs.length,
+      maxZoom: tileConfigs.length - 1,
+      tileConfigs,
+      encoding,
+    }
   }
 
-  private async createZipFile(tiles: { [key: string]: Buffer }): Promise<Buffer> {
-    try {
-      const zip = new JSZip()
+  // config.json and the viewer files, everything in the ZIP besides the tiles and the preview strip
+  private async configEntries(
+    sourceInfo: SourceInfo,
+    tileConfigs: TileConfig[],
+    options: ConversionOptions,
+    encoding: TileEncoding,
+    sceneName: string,
+  ): Promise<ZipEntry[]> {
+    const config = createCubemapConfig(sourceInfo, tileConfigs, options)
+    const files: ZipEntry[] = [{ name: "config.json", input: JSON.stringify(config, null, 2) }]
+    if (options.tileTarget === "krpano") {
+      files.push({ name: KRPANO_TOUR_FILE, input: createKrpanoTourXml(tileConfigs, encoding) })
+    }
+    files.push(...regionsEntry(options))
+
+    if (hasMarzipanoProject(options)) {
+      const data = createMarzipanoData(tileConfigs, sceneName, options)
+      files.push(
+        { name: MARZIPANO_DATA_FILE, input: marzipanoDataScript(data) },
+        { name: MARZIPANO_INDEX_FILE, input: createMarzipanoIndexHtml(data, tileConfigs, encoding) },
+        { name: MARZIPANO_SCRIPT_FILE, input: await readMarzipanoScript() },
+      )
+    }
+    return files
+  }
 
-      for (const [tilePath, buffer] of Object.entries(tiles)) {
-        zip.file(`${tilePath}.jpg`, buffer)
+  private async *zipEntries(
+    files: ZipEntry[],
+    source: RGBAImage,
+    tileConfigs: TileConfig[],
+    options: ConversionOptions,
+    encoding: TileEncoding,
+    nadirLogo: RGBAImage | null,
+  ): AsyncGenerator<ZipEntry> {
+    yield* files
+
+    const project = hasMarzipanoProject(options)
+    // The fallback tiles are whole faces; they are kept for the preview strip, which is written last
+    const previewFaces: Partial<Record<FaceName, RGBAImage>> = {}
+    for (let face = 0; face < 6; face++) {
+      for (const tile of faceTiles(source, face, tileConfigs, options, nadirLogo)) {
+        if (project && tileConfigs[tile.z].fallbackOnly) {
+          previewFaces[tile.face] = tile.image
+        }
+        yield {
+          name: `${tileFilePath(tile, tileConfigs, options)}.${encoding.extension}`,
+          input: await encodeTile(tile.image, encoding),
+        }
       }
-
-      const config = {
-        format: "marzipano-cubemap",
-        tileStructure: "{z}/{f}/{y}/{x}.jpg (where f = r,l,u,d,f,b)",
-        faceMapping: {
-          r: "right (+X)",
-          l: "left (-X)",
-          u: "up (+Y)",
-          d: "down (-Y)",
-          f: "front (+Z)",
-          b: "back (-Z)",
-        },
-        tileConfigs: this.tileConfigs,
-        description: "Marzipano cubemap tiles generated from panoramic image with maximum quality preservation",
+    }
+    if (project && hasMarzipanoPreview(tileConfigs)) {
+      yield {
+        name: MARZIPANO_PREVIEW_FILE,
+        input: await encodeTile(createMarzipanoPreview(previewFaces), MARZIPANO_PREVIEW_ENCODING),
       }
-
-      zip.file("config.json", JSON.stringify(config, null, 2))
-
-      const zipBuffer = await zip.generateAsync({ type: "nodebuffer" })
-      return zipBuffer
-    } catch (error) {
-      console.error("[v0] Error creating ZIP file:", error)
-      throw error
     }
+    console.log("[v0] Conversion completed successfully")
   }
 }
 
@@ -364,7 +327,7 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: "Invalid JSON in request body" }, { status: 400 })
     }
 
-    const { imageUrl } = body
+    const { imageUrl, ...optionsBody } = body
 
     if (!imageUrl) {
       return NextResponse.json({ error: "Image URL is required" }, { status: 400 })
@@ -377,12 +340,61 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: "Invalid URL format" }, { status: 400 })
     }
 
+    const options = conversionOptionsSchema.safeParse(optionsBody)
+    if (!options.success) {
+      return NextResponse.json(
+        { error: "Invalid conversion options", details: formatOptionsError(options.error) },
+        { status: 400 },
+      )
+    }
+
+    if (options.data.nadirPatch === "logo" && !options.data.nadirLogoUrl) {
+      return NextResponse.json(
+        { error: "Invalid conversion options", details: "nadirLogoUrl: required for the logo nadir patch" },
+        { status: 400 },
+      )
+    }
+
     console.log("[v0] Starting conversion process...")
     const converter = new ServerPanoramaConverter()
-    const result = await converter.convertFromUrl(imageUrl)
 
-    console.log("[v0] Conversion successful, returning ZIP file")
-    return new NextResponse(result.zipBuffer, {
+    if (options.data.output === "environment") {
+      const { zipStream, config } = await converter.convertEnvironmentFromUrl(imageUrl, options.data)
+      return new NextResponse(zipStream, {
+        status: 200,
+        headers: {
+          "Content-Type": "application/zip",
+          "Content-Disposition": 'attachment; filename="environment-cubemap.zip"',
+          "X-Output": "environment",
+          ...gpanoHeaders(config.gpano),
+          "X-Face-Size": config.faceSize.toString(),
+          "X-Mip-Levels": config.mipLevels.toString(),
+          "X-Face-Format": options.data.environmentFaceFormat ?? DEFAULT_ENVIRONMENT_FACE_FORMAT,
+        },
+      })
+    }
+
+    if (options.data.output === "cubemap") {
+      const { zipStream, config, encoding } = await converter.convertCubemapFromUrl(imageUrl, options.data)
+      return new NextResponse(zipStream, {
+        status: 200,
+        headers: {
+          "Content-Type": "application/zip",
+          "Content-Disposition": 'attachment; filename="cubemap-images.zip"',
+          "X-Output": "cubemap",
+          ...gpanoHeaders(config.gpano),
+          "X-Face-Size": config.faceSize.toString(),
+          "X-Cubemap-Layout": config.layout,
+          "X-Cubemap-Preset": config.preset,
+          "X-Tile-Format": encoding.extension,
+        },
+      })
+    }
+
+    const result = await converter.convertFromUrl(imageUrl, options.data)
+
+    console.log("[v0] Source decoded, streaming ZIP file")
+    return new NextResponse(result.zipStream, {
       status: 200,
       headers: {
         "Content-Type": "application/zip",
@@ -390,6 +402,12 @@ export async function POST(request: NextRequest) {
         "X-Total-Tiles": result.totalTiles.toString(),
         "X-Zoom-Levels": result.zoomLevels.toString(),
         "X-Max-Zoom": result.maxZoom.toString(),
+        "X-Tile-Size": result.tileConfigs[result.tileConfigs.length - 1].tileSize.toString(),
+        "X-Level-Sizes": result.tileConfigs.map((config) => config.size).join(","),
+        "X-Output": "tiles",
+        "X-Tile-Target": options.data.tileTarget ?? DEFAULT_TILE_TARGET,
+        ...gpanoHeaders(result.gpano),
+        "X-Tile-Format": result.encoding.extension,
       },
     })
   } catch (error) {
@@ -0,0 +1,19 @@
+import { NextResponse } from "next/server"
+import { readMarzipanoScript } from "@/lib/panorama/viewer-assets"
+
+export const runtime = "nodejs"
+
+// The browser converter fetches the viewer from here to bundle it into Marzipano project exports
+export async function GET() {
+  try {
+    return new NextResponse(await readMarzipanoScript(), {
+      headers: {
+        "Content-Type": "text/javascript; charset=utf-8",
+        "Cache-Control": "public, max-age=86400",
+      },
+    })
+  } catch (error) {
+    console.error("[v0] Failed to read the Marzipano script:", error)
+    return NextResponse.json({ error: "Marzipano viewer script is not installed" }, { status: 500 })
+  }
+}
@@ -2,61 +2,159 @@
 
 import type React from "react"
 
-import { useState, useRef } from "react"
+import { useMemo, useState, useRef } from "react"
 import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Progress } from "@/components/ui/progress"
-import { Upload, Download, Eye, Link } from "lucide-react"
-import { PanoramaConverter } from "@/components/panorama-converter"
+import { Upload, Download, Eye, Link, X, Globe } from "lucide-react"
+import {
+  PanoramaConverter,
+  isBrowserOutputSupported,
+  isBrowserTileEncodingSupported,
+} from "@/components/panorama-converter"
 import { MarzipanoViewer } from "@/components/marzipano-viewer"
 import { ApiConverter } from "@/components/api-converter"
+import { ConversionSettings } from "@/components/conversion-settings"
+import { GPanoSummary } from "@/components/gpano-summary"
+import { HorizonLeveler } from "@/components/horizon-leveler"
+import { RegionMaskEditor } from "@/components/region-mask-editor"
+import { ReverseConverter } from "@/components/reverse-converter"
+import { CUBEMAP_EXPORT_LAYOUT_LABELS, CUBEMAP_PRESET_INFO } from "@/lib/panorama/cubemap-export"
+import { TILE_FORMAT_INFO, tileStructure } from "@/lib/panorama/formats"
+import { isCroppedPanorama, readGPano, type GPanoMetadata } from "@/lib/panorama/gpano"
+import { isHDRFileName } from "@/lib/panorama/hdr"
+import type { ConversionOptions, CubemapExportLayout, CubemapPreset, TileFormat } from "@/lib/panorama/options"
+import { writeHotspots } from "@/lib/panorama/hotspot-archive"
+import type { HotspotOptions } from "@/lib/panorama/hotspots"
+import { memoryTileSource } from "@/lib/panorama/tile-source"
+import type { TileConfig } from "@/lib/panorama/tiles"
 
 export default function Home() {
   const [selectedFile, setSelectedFile] = useState<File | null>(null)
+  const [gpano, setGPano] = useState<GPanoMetadata | null>(null)
+  const [nadirLogo, setNadirLogo] = useState<File | null>(null)
   const [isConverting, setIsConverting] = useState(false)
   const [progress, setProgress] = useState(0)
   const [cubemapData, setCubemapData] = useState<any>(null)
   const [showViewer, setShowViewer] = useState(false)
-  const [activeTab, setActiveTab] = useState<"upload" | "api">("upload")
+  // Hotspots placed in the preview; they are written into the ZIP when it is next downloaded
+  const [hotspots, setHotspots] = useState<HotspotOptions>({})
+  const [hotspotsChanged, setHotspotsChanged] = useState(false)
+  const [activeTab, setActiveTab] = useState<"upload" | "api" | "reverse">("upload")
+  const [options, setOptions] = useState<ConversionOptions>({})
   const fileInputRef = useRef<HTMLInputElement>(null)
+  const abortControllerRef = useRef<AbortController | null>(null)
+
+  // Kept across renders so the viewer is only rebuilt for a new conversion, not when the ZIP is rewritten
+  const tileSource = useMemo(
+    () =>
+      cubemapData?.tiles
+        ? memoryTileSource(cubemapData.tiles, cubemapData.tileConfigs, cubemapData.options)
+        : null,
+    [cubemapData?.tiles, cubemapData?.tileConfigs, cubemapData?.options],
+  )
+
+  // Drops the previous result so its tiles and ZIP can be garbage collected
+  const releaseCubemapData = () => {
+    if (cubemapData?.zipUrl) {
+      URL.revokeObjectURL(cubemapData.zipUrl)
+    }
+    setCubemapData(null)
+    setShowViewer(false)
+    setHotspots({})
+    setHotspotsChanged(false)
+  }
+
+  const selectFile = (file: File) => {
+    setSelectedFile(file)
+    setGPano(null)
+    releaseCubemapData()
+    // Shown as soon as the file is picked; the converter reads it again when it decodes the file
+    file
+      .arrayBuffer()
+      .then((buffer) => setGPano(readGPano(buffer)))
+      .catch(() => setGPano(null))
+  }
 
   const handleFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0]
-    if (file && file.type.startsWith("image/")) {
-      setSelectedFile(file)
-      setCubemapData(null)
-      setShowViewer(false)
+    // Browsers report no MIME type for .hdr and .exr, so accept those by extension
+    if (file && (file.type.startsWith("image/") || isHDRFileName(file.name))) {
+      selectFile(file)
     }
   }
 
   const handleConvert = async () => {
     if (!selectedFile) return
 
+    releaseCubemapData()
     setIsConverting(true)
     setProgress(0)
 
+    const abortController = new AbortController()
+    abortControllerRef.current = abortController
+
     try {
       const converter = new PanoramaConverter()
-      const result = await converter.convertToCubemap(selectedFile, (progress) => {
-        setProgress(progress)
-      })
+      const result = await converter.convertToCubemap(
+        selectedFile,
+        (progress) => {
+          setProgress(progress)
+        },
+        options,
+        abortController.signal,
+        nadirLogo,
+      )
 
       setCubemapData(result)
+      setHotspots({ infoHotspots: result.options.infoHotspots, linkHotspots: result.options.linkHotspots })
       setProgress(100)
     } catch (error) {
+      if (error instanceof DOMException && error.name === "AbortError") {
+        setProgress(0)
+        return
+      }
       console.error("Conversion failed:", error)
+      alert(error instanceof Error ? error.message : "Conversion failed")
     } finally {
+      abortControllerRef.current = null
       setIsConverting(false)
     }
   }
 
-  const handleDownload = () => {
+  const handleCancel = () => {
+    abortControllerRef.current?.abort()
+  }
+
+  const handleDownload = async () => {
     if (!cubemapData) return
 
+    let zipUrl = cubemapData.zipUrl
+    if (hotspotsChanged) {
+      try {
+        const archive = await writeHotspots(await (await fetch(zipUrl)).blob(), hotspots)
+        URL.revokeObjectURL(zipUrl)
+        zipUrl = URL.createObjectURL(archive)
+      } catch (error) {
+        console.error("Saving hotspots failed:", error)
+        alert(error instanceof Error ? error.message : "Saving hotspots failed")
+        return
+      }
+      setCubemapData({ ...cubemapData, zipUrl })
+      setHotspotsChanged(false)
+    }
+
     // Create and download zip file with all tiles
     const link = document.createElement("a")
-    link.href = cubemapData.zipUrl
-    link.download = "marzipano-cubemap.zip"
+    link.href = zipUrl
+    link.download =
+      cubemapData.output === "cubemap"
+        ? "cubemap-images.zip"
+        : cubemapData.options.tileTarget === "krpano" || cubemapData.options.tileTarget === "pannellum"
+          ? `${cubemapData.options.tileTarget}-multires.zip`
+          : "marzipano-cubemap.zip"
     link.click()
   }
 
@@ -88,6 +186,15 @@ export default function Home() {
               <Link className="w-4 h-4" />
               Image URL
             </Button>
+            <Button
+              variant={activeTab === "reverse" ? "default" : "ghost"}
+              size="sm"
+              onClick={() => setActiveTab("reverse")}
+              className="flex items-center gap-2"
+            >
+              <Globe className="w-4 h-4" />
+              Cubemap to Equirect
+            </Button>
           </div>
         </div>
 
@@ -108,7 +215,7 @@ export default function Home() {
                   <input
                     ref={fileInputRef}
                     type="file"
-                    accept="image/*"
+                    accept="image/*,.hdr,.exr"
                     onChange={handleFileSelect}
                     className="hidden"
                   />
@@ -129,11 +236,50 @@ export default function Home() {
                   </Button>
                 </div>
 
+                {gpano && <GPanoSummary gpano={gpano} />}
+
+                {selectedFile && !isHDRFileName(selectedFile.name) && (
+                  <HorizonLeveler file={selectedFile} value={options} onChange={setOptions} disabled={isConverting} />
+                )}
+
+                {selectedFile && !isHDRFileName(selectedFile.name) && (
+                  <RegionMaskEditor file={selectedFile} value={options} onChange={setOptions} disabled={isConverting} />
+                )}
+
+                <ConversionSettings
+                  value={options}
+                  onChange={setOptions}
+                  disabled={isConverting}
+                  isFormatSupported={isBrowserTileEncodingSupported}
+                  isOutputSupported={isBrowserOutputSupported}
+                  showToneMapping={selectedFile ? isHDRFileName(selectedFile.name) : false}
+                  showCropFill={isCroppedPanorama(gpano)}
+                  showGPanoHeading={gpano?.poseHeadingDegrees !== undefined}
+                  nadirLogoField={
+                    <div className="space-y-2">
+                      <Label htmlFor="nadirLogo">Logo (PNG with transparency)</Label>
+                      <Input
+                        id="nadirLogo"
+                        type="file"
+                        accept="image/*"
+                        onChange={(e) => setNadirLogo(e.target.files?.[0] ?? null)}
+                        disabled={isConverting}
+                      />
+                    </div>
+                  }
+                />
+
                 {selectedFile && (
                   <div className="flex gap-2">
                     <Button onClick={handleConvert} disabled={isConverting} className="flex-1">
                       {isConverting ? "Converting..." : "Convert to Cubemap"}
                     </Button>
+                    {isConverting && (
+                      <Button onClick={handleCancel} variant="outline">
+                        <X className="w-4 h-4 mr-2" />
+                        Cancel
+                      </Button>
+                    )}
                   </div>
                 )}
 
@@ -156,55 +302,121 @@ export default function Home() {
                     <Download className="w-5 h-5" />
                     Conversion Complete
                   </CardTitle>
-                  <CardDescription>Your panorama has been converted to Marzipano cubemap format</CardDescription>
+                  <CardDescription>
+                    {cubemapData.output === "cubemap"
+                      ? "Your panorama has been converted to cubemap images"
+                      : "Your panorama has been converted to Marzipano cubemap format"}
+                  </CardDescription>
                 </CardHeader>
                 <CardContent className="space-y-4">
-                  <div className="grid grid-cols-2 gap-4 text-sm">
-                    <div>
-                      <div className="font-medium">Total Tiles:</div>
-                      <div className="text-gray-600">{cubemapData.totalTiles}</div>
+                  {cubemapData.output === "cubemap" ? (
+                    <div className="grid grid-cols-2 gap-4 text-sm">
+                      <div>
+                        <div className="font-medium">Layout:</div>
+                        <div className="text-gray-600">
+                          {CUBEMAP_EXPORT_LAYOUT_LABELS[cubemapData.layout as CubemapExportLayout]}
+                        </div>
+                      </div>
+                      <div>
+                        <div className="font-medium">Orientation:</div>
+                        <div className="text-gray-600">
+                          {CUBEMAP_PRESET_INFO[cubemapData.preset as CubemapPreset].label}
+                        </div>
+                      </div>
+                      <div>
+                        <div className="font-medium">Face Size:</div>
+                        <div className="text-gray-600">{cubemapData.faceSize}x{cubemapData.faceSize} pixels</div>
+                      </div>
+                      <div>
+                        <div className="font-medium">Files:</div>
+                        <div className="text-gray-600">{cubemapData.files.join(", ")}</div>
+                      </div>
+                      <div>
+                        <div className="font-medium">Format:</div>
+                        <div className="text-gray-600">
+                          {TILE_FORMAT_INFO[cubemapData.encoding.format as TileFormat].label}
+                        </div>
+                      </div>
                     </div>
-                    <div>
-                      <div className="font-medium">Zoom Levels:</div>
-                      <div className="text-gray-600">{cubemapData.zoomLevels}</div>
-                    </div>
-                    <div>
-                      <div className="font-medium">Tile Size:</div>
-                      <div className="text-gray-600">512x512 pixels</div>
-                    </div>
-                    <div>
-                      <div className="font-medium">Format:</div>
-                      <div className="text-gray-600">{"{z}/{f}/{y}/{x}.jpg"}</div>
+                  ) : (
+                    <div className="grid grid-cols-2 gap-4 text-sm">
+                      <div>
+                        <div className="font-medium">Total Tiles:</div>
+                        <div className="text-gray-600">{cubemapData.totalTiles}</div>
+                      </div>
+                      <div>
+                        <div className="font-medium">Zoom Levels:</div>
+                        <div className="text-gray-600">{cubemapData.zoomLevels}</div>
+                      </div>
+                      <div>
+                        <div className="font-medium">Tile Size:</div>
+                        <div className="text-gray-600">
+                          {cubemapData.tileConfigs.at(-1).tileSize}x{cubemapData.tileConfigs.at(-1).tileSize} pixels
+                        </div>
+                      </div>
+                      <div>
+                        <div className="font-medium">Level Sizes:</div>
+                        <div className="text-gray-600">
+                          {cubemapData.tileConfigs
+                            .map((config: TileConfig) => `${config.size}${config.fallbackOnly ? " (fallback)" : ""}`)
+                            .join(", ")}
+                        </div>
+                      </div>
+                      <div>
+                        <div className="font-medium">Format:</div>
+                        <div className="text-gray-600">
+                          {tileStructure(cubemapData.encoding, cubemapData.options.tileTarget)}
+                        </div>
+                      </div>
                     </div>
-                  </div>
+                  )}
 
                   <div className="flex gap-2">
                     <Button onClick={handleDownload} className="flex-1">
                       <Download className="w-4 h-4 mr-2" />
                       Download Cubemap
                     </Button>
-                    <Button onClick={() => setShowViewer(!showViewer)} variant="outline" className="flex-1">
-                      <Eye className="w-4 h-4 mr-2" />
-                      {showViewer ? "Hide Preview" : "Preview"}
-                    </Button>
+                    {cubemapData.output !== "cubemap" && (
+                      <Button onClick={() => setShowViewer(!showViewer)} variant="outline" className="flex-1">
+                        <Eye className="w-4 h-4 mr-2" />
+                        {showViewer ? "Hide Preview" : "Preview"}
+                      </Button>
+                    )}
                   </div>
                 </CardContent>
               </Card>
             )}
           </>
-        ) : (
+        ) : activeTab === "api" ? (
           /* Added API converter component for URL-based conversion */
           <ApiConverter />
+        ) : (
+          <ReverseConverter
+            onRetile={(file) => {
+              selectFile(file)
+              setActiveTab("upload")
+            }}
+          />
         )}
 
-        {showViewer && cubemapData && (
+        {showViewer && tileSource && (
           <Card>
             <CardHeader>
-              <CardTitle>Marzipano Preview</CardTitle>
-              <CardDescription>Interactive preview of your converted cubemap</CardDescription>
+              <CardTitle>Tile Preview</CardTitle>
+              <CardDescription>
+                Every level of your tile pyramid, as a viewer would load it. Hotspots placed here are written into
+                the download.
+              </CardDescription>
             </CardHeader>
             <CardContent>
-              <MarzipanoViewer cubemapData={cubemapData} />
+              <MarzipanoViewer
+                source={tileSource}
+                hotspots={hotspots}
+                onHotspotsChange={(next) => {
+                  setHotspots(next)
+                  setHotspotsChanged(true)
+                }}
+              />
             </CardContent>
           </Card>
         )}
@@ -3,20 +3,46 @@
 import { useState } from "react"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Progress } from "@/components/ui/progress"
-import { Download, Link, Loader2 } from "lucide-react"
+import { Download, Eye, Link, Loader2 } from "lucide-react"
+import { ConversionSettings } from "@/components/conversion-settings"
+import { GPanoSummary } from "@/components/gpano-summary"
+import { MarzipanoViewer } from "@/components/marzipano-viewer"
+import { CUBEMAP_EXPORT_LAYOUT_LABELS, CUBEMAP_PRESET_INFO } from "@/lib/panorama/cubemap-export"
+import type { GPanoMetadata } from "@/lib/panorama/gpano"
+import type { ConversionOptions, CubemapExportLayout, CubemapPreset } from "@/lib/panorama/options"
+import { writeHotspots } from "@/lib/panorama/hotspot-archive"
+import type { HotspotOptions } from "@/lib/panorama/hotspots"
+import { zipTileSource, type TileSource } from "@/lib/panorama/tile-source"
 
 export function ApiConverter() {
   const [imageUrl, setImageUrl] = useState("")
   const [isConverting, setIsConverting] = useState(false)
   const [progress, setProgress] = useState(0)
+  const [options, setOptions] = useState<ConversionOptions>({})
   const [result, setResult] = useState<{
     downloadUrl: string
+    // Tile pyramids keep their ZIP so the preview can read tiles from it
+    archive?: Blob
     totalTiles: number
     zoomLevels: number
     maxZoom: number
+    tileSize: number
+    levelSizes: string
+    tileExtension: string
+    tileTarget: string
+    fileName: string
+    environment?: { faceSize: number; mipLevels: number; faceExtension: string }
+    cubemap?: { faceSize: number; layout: CubemapExportLayout; preset: CubemapPreset }
+    gpano?: GPanoMetadata
   } | null>(null)
+  const [tileSource, setTileSource] = useState<TileSource | null>(null)
+  const [isLoadingPreview, setIsLoadingPreview] = useState(false)
+  // Hotspots placed in the preview; they are written into the ZIP when it is next downloaded
+  const [hotspots, setHotspots] = useState<HotspotOptions>({})
+  const [hotspotsChanged, setHotspotsChanged] = useState(false)
 
   const handleConvert = async () => {
     if (!imageUrl.trim()) return
@@ -24,6 +50,9 @@ export function ApiConverter() {
     setIsConverting(true)
     setProgress(0)
     setResult(null)
+    setTileSource(null)
+    setHotspots({})
+    setHotspotsChanged(false)
 
     try {
       const response = await fetch("/api/convert-panorama", {
@@ -31,26 +60,62 @@ export function ApiConverter() {
         headers: {
           "Content-Type": "application/json",
         },
-        body: JSON.stringify({ imageUrl: imageUrl.trim() }),
+        body: JSON.stringify({ imageUrl: imageUrl.trim(), ...options }),
       })
 
       if (!response.ok) {
         const error = await response.json()
-        throw new Error(error.error || "Conversion failed")
+        throw new Error(error.details ? `${error.error}: ${error.details}` : error.error || "Conversion failed")
       }
 
       const totalTiles = Number.parseInt(response.headers.get("X-Total-Tiles") || "0")
       const zoomLevels = Number.parseInt(response.headers.get("X-Zoom-Levels") || "0")
       const maxZoom = Number.parseInt(response.headers.get("X-Max-Zoom") || "0")
+      const tileSize = Number.parseInt(response.headers.get("X-Tile-Size") || "0")
+      const levelSizes = (response.headers.get("X-Level-Sizes") || "").split(",").join(", ")
+      const tileExtension = response.headers.get("X-Tile-Format") || "jpg"
+      const tileTarget = response.headers.get("X-Tile-Target") || "marzipano"
+      const environment =
+        response.headers.get("X-Output") === "environment"
+          ? {
+              faceSize: Number.parseInt(response.headers.get("X-Face-Size") || "0"),
+              mipLevels: Number.parseInt(response.headers.get("X-Mip-Levels") || "0"),
+              faceExtension: response.headers.get("X-Face-Format") || "hdr",
+            }
+          : undefined
+      const cubemap =
+        response.headers.get("X-Output") === "cubemap"
+          ? {
+              faceSize: Number.parseInt(response.headers.get("X-Face-Size") || "0"),
+              layout: (response.headers.get("X-Cubemap-Layout") || "faces") as CubemapExportLayout,
+              preset: (response.headers.get("X-Cubemap-Preset") || "opengl") as CubemapPreset,
+            }
+          : undefined
 
-      const blob = await response.blob()
+      const gpanoHeader = response.headers.get("X-GPano")
+      const gpano = gpanoHeader ? (JSON.parse(gpanoHeader) as GPanoMetadata) : undefined
+
+      // The server aborts the stream when a tile fails after the headers went out, which rejects here
+      const blob = await response.blob().catch((error) => {
+        console.error("ZIP download failed:", error)
+        throw new Error("The conversion failed while the ZIP was being written; see the server log")
+      })
       const downloadUrl = URL.createObjectURL(blob)
 
       setResult({
         downloadUrl,
+        archive: environment || cubemap ? undefined : blob,
         totalTiles,
         zoomLevels,
         maxZoom,
+        tileSize,
+        levelSizes,
+        tileExtension,
+        tileTarget,
+        fileName: environment ? "environment-cubemap.zip" : cubemap ? "cubemap-images.zip" : "cubemap-tiles.zip",
+        environment,
+        cubemap,
+        gpano,
       })
 
       setProgress(100)
@@ -62,14 +127,47 @@ export function ApiConverter() {
     }
   }
 
-  const handleDownload = () => {
-    if (result) {
-      const link = document.createElement("a")
-      link.href = result.downloadUrl
-      link.download = "cubemap-tiles.zip"
-      document.body.appendChild(link)
-      link.click()
-      document.body.removeChild(link)
+  const handleDownload = async () => {
+    if (!result) return
+
+    let { archive, downloadUrl } = result
+    if (archive && hotspotsChanged) {
+      try {
+        archive = await writeHotspots(archive, hotspots)
+      } catch (error) {
+        console.error("Saving hotspots failed:", error)
+        alert(error instanceof Error ? error.message : "Saving hotspots failed")
+        return
+      }
+      URL.revokeObjectURL(downloadUrl)
+      downloadUrl = URL.createObjectURL(archive)
+      setResult({ ...result, archive, downloadUrl })
+      setHotspotsChanged(false)
+    }
+
+    const link = document.createElement("a")
+    link.href = downloadUrl
+    link.download = result.fileName
+    document.body.appendChild(link)
+    link.click()
+    document.body.removeChild(link)
+  }
+
+  const handlePreview = async () => {
+    if (tileSource) {
+      setTileSource(null)
+      return
+    }
+    if (!result?.archive) return
+
+    setIsLoadingPreview(true)
+    try {
+      setTileSource(await zipTileSource(result.archive))
+    } catch (error) {
+      console.error("Preview error:", error)
+      alert(error instanceof Error ? error.message : "Preview failed")
+    } finally {
+      setIsLoadingPreview(false)
     }
   }
 
@@ -97,6 +195,25 @@ export function ApiConverter() {
           />
         </div>
 
+        <ConversionSettings
+          value={options}
+          onChange={setOptions}
+          disabled={isConverting}
+          nadirLogoField={
+            <div className="space-y-2">
+              <Label htmlFor="nadirLogoUrl">Logo URL (PNG with transparency)</Label>
+              <Input
+                id="nadirLogoUrl"
+                type="url"
+                placeholder="https://example.com/logo.png"
+                value={options.nadirLogoUrl ?? ""}
+                onChange={(e) => setOptions({ ...options, nadirLogoUrl: e.target.value || undefined })}
+                disabled={isConverting}
+              />
+            </div>
+          }
+        />
+
         <Button onClick={handleConvert} disabled={!imageUrl.trim() || isConverting} className="w-full">
           {isConverting ? (
             <>
@@ -123,27 +240,89 @@ export function ApiConverter() {
             <div className="flex items-center justify-between">
               <div>
                 <h3 className="font-semibold text-green-800">Conversion Complete!</h3>
-                <p className="text-sm text-green-600">
-                  Generated {result.totalTiles} tiles across {result.zoomLevels} zoom levels
-                </p>
+                {result.environment ? (
+                  <>
+                    <p className="text-sm text-green-600">
+                      Six {result.environment.faceSize}x{result.environment.faceSize} .
+                      {result.environment.faceExtension} faces
+                    </p>
+                    <p className="text-sm text-green-600">
+                      KTX2 cubemap (RGBA16F) with {result.environment.mipLevels} mip levels
+                    </p>
+                  </>
+                ) : result.cubemap ? (
+                  <>
+                    <p className="text-sm text-green-600">
+                      {CUBEMAP_EXPORT_LAYOUT_LABELS[result.cubemap.layout]} with {result.cubemap.faceSize}x
+                      {result.cubemap.faceSize} .{result.tileExtension} faces
+                    </p>
+                    <p className="text-sm text-green-600">{CUBEMAP_PRESET_INFO[result.cubemap.preset].label}</p>
+                  </>
+                ) : (
+                  <>
+                    <p className="text-sm text-green-600">
+                      Generated {result.totalTiles} tiles across {result.zoomLevels} zoom levels
+                    </p>
+                    <p className="text-sm text-green-600">
+                      {result.tileSize}x{result.tileSize} pixel .{result.tileExtension} tiles, face sizes{" "}
+                      {result.levelSizes}
+                    </p>
+                    {result.tileTarget === "krpano" && (
+                      <p className="text-sm text-green-600">krpano multires layout with tour.xml</p>
+                    )}
+                    {result.tileTarget === "pannellum" && (
+                      <p className="text-sm text-green-600">Pannellum multires layout, config.json loads as is</p>
+                    )}
+                  </>
+                )}
+              </div>
+              <div className="flex flex-col gap-2">
+                <Button onClick={handleDownload} size="sm">
+                  <Download className="mr-2 h-4 w-4" />
+                  Download ZIP
+                </Button>
+                {result.archive && (
+                  <Button onClick={handlePreview} variant="outline" size="sm" disabled={isLoadingPreview}>
+                    {isLoadingPreview ? (
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    ) : (
+                      <Eye className="mr-2 h-4 w-4" />
+                    )}
+                    {tileSource ? "Hide Preview" : "Preview"}
+                  </Button>
+                )}
               </div>
-              <Button onClick={handleDownload} size="sm">
-                <Download className="mr-2 h-4 w-4" />
-                Download ZIP
-              </Button>
             </div>
+            {tileSource && (
+              <MarzipanoViewer
+                source={tileSource}
+                hotspots={hotspots}
+                onHotspotsChange={(next) => {
+                  setHotspots(next)
+                  setHotspotsChanged(true)
+                }}
+              />
+            )}
+            {result.gpano && <GPanoSummary gpano={result.gpano} />}
           </div>
         )}
 
         <div className="text-xs text-gray-500 space-y-1">
           <p>
-            <strong>Supported formats:</strong> JPG, PNG, WebP
+            <strong>Supported formats:</strong> JPG, PNG, WebP, Radiance HDR, OpenEXR
+          </p>
+          <p>
+            <strong>Output structure:</strong> {`{z}/{f}/{y}/{x}.{jpg|webp|avif|png}`} where f = r,l,u,d,f,b
+          </p>
+          <p>
+            <strong>Environment output:</strong> faces/{`{px,nx,py,ny,pz,nz}.{hdr|exr}`} plus environment.ktx2
           </p>
           <p>
-            <strong>Output structure:</strong> {`{z}/{f}/{y}/{x}.jpg`} where f = r,l,u,d,f,b
+            <strong>Cubemap images:</strong> six face files or one cross, 6×1 strip or YouTube 3×2 grid, with OpenGL,
+            DirectX, Unity or Marzipano face order and orientation
           </p>
           <p>
-            <strong>Quality:</strong> Maximum quality preservation with bilinear interpolation
+            <strong>Resampling:</strong> Nearest, bilinear, bicubic, Lanczos-3 or supersampled
           </p>
         </div>
       </CardContent>
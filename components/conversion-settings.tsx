@@ -0,0 +1,794 @@
+"use client"
+
+import type React from "react"
+
+import { useState } from "react"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Slider } from "@/components/ui/slider"
+import { Switch } from "@/components/ui/switch"
+import { Settings2 } from "lucide-react"
+import { CUBEMAP_EXPORT_LAYOUT_LABELS, CUBEMAP_PRESET_INFO } from "@/lib/panorama/cubemap-export"
+import { ENVIRONMENT_FACE_FORMAT_INFO } from "@/lib/panorama/environment"
+import { TILE_FORMAT_INFO, resolveTileEncoding } from "@/lib/panorama/formats"
+import {
+  CROP_FILLS,
+  CUBE_PROJECTIONS,
+  CUBEMAP_EXPORT_LAYOUTS,
+  CUBEMAP_PRESETS,
+  DEFAULT_CROP_FILL,
+  DEFAULT_CROP_FILL_COLOR,
+  DEFAULT_CUBE_PROJECTION,
+  DEFAULT_CUBEMAP_EXPORT_LAYOUT,
+  DEFAULT_CUBEMAP_PRESET,
+  DEFAULT_ENVIRONMENT_FACE_FORMAT,
+  DEFAULT_EXPOSURE,
+  DEFAULT_FILTER,
+  DEFAULT_GAMMA,
+  DEFAULT_NADIR_COLOR,
+  DEFAULT_NADIR_PATCH,
+  DEFAULT_NADIR_SIZE,
+  DEFAULT_OUTPUT_MODE,
+  DEFAULT_SUPERSAMPLING,
+  DEFAULT_TILE_SIZE,
+  DEFAULT_TILE_TARGET,
+  DEFAULT_TONE_MAPPING,
+  ENVIRONMENT_FACE_FORMATS,
+  NADIR_PATCHES,
+  OUTPUT_MODES,
+  RESAMPLING_FILTERS,
+  TILE_FORMATS,
+  TILE_SIZES,
+  TILE_TARGETS,
+  TONE_MAPPINGS,
+  conversionOptionsSchema,
+  formatOptionsError,
+  type ConversionOptions,
+  type CropFill,
+  type CubeProjection,
+  type CubemapExportLayout,
+  type CubemapPreset,
+  type EnvironmentFaceFormat,
+  type NadirPatch,
+  type OutputMode,
+  type ResamplingFilter,
+  type TileFormat,
+  type TileTarget,
+  type ToneMapping,
+} from "@/lib/panorama/options"
+
+type LevelMode = "auto" | "range" | "explicit"
+
+const FILTER_LABELS: Record<ResamplingFilter, string> = {
+  nearest: "Nearest neighbour",
+  bilinear: "Bilinear",
+  bicubic: "Bicubic",
+  lanczos3: "Lanczos-3",
+  supersample: "Supersampled",
+}
+
+const SUPERSAMPLING_FACTORS = [2, 3, 4] as const
+
+const OUTPUT_MODE_LABELS: Record<OutputMode, string> = {
+  tiles: "Tile pyramid",
+  environment: "HDR environment cubemap",
+  cubemap: "Cubemap images",
+}
+
+const TILE_TARGET_LABELS: Record<TileTarget, string> = {
+  marzipano: "Marzipano (project with index.html)",
+  krpano: "krpano (multires + tour.xml)",
+  pannellum: "Pannellum (multires config.json)",
+}
+
+export const CUBE_PROJECTION_LABELS: Record<CubeProjection, string> = {
+  standard: "Standard cube faces",
+  eac: "Equi-angular (EAC)",
+}
+
+const ORIENTATION_SLIDERS = [
+  { key: "yaw", label: "Yaw", range: 180 },
+  { key: "pitch", label: "Pitch", range: 90 },
+  { key: "roll", label: "Roll", range: 180 },
+] as const
+
+const NADIR_PATCH_LABELS: Record<NadirPatch, string> = {
+  none: "None",
+  logo: "Logo",
+  disc: "Solid disc",
+  blur: "Blurred fill",
+}
+
+const CROP_FILL_LABELS: Record<CropFill, string> = {
+  color: "Solid colour",
+  mirror: "Mirror the image",
+  blur: "Blurred extension",
+}
+
+const TONE_MAPPING_LABELS: Record<ToneMapping, string> = {
+  aces: "ACES filmic",
+  reinhard: "Reinhard",
+  linear: "Linear (clip)",
+}
+
+interface ConversionSettingsProps {
+  value: ConversionOptions
+  onChange: (value: ConversionOptions) => void
+  disabled?: boolean
+  // Lets the upload tab grey out encodings the browser cannot produce
+  isFormatSupported?: (format: TileFormat, lossless: boolean) => boolean
+  isOutputSupported?: (output: OutputMode) => boolean
+  // Tone mapping only affects Radiance .hdr and OpenEXR sources
+  showToneMapping?: boolean
+  // Crop filling only affects panoramas whose GPano metadata describes a partial sphere
+  showCropFill?: boolean
+  showGPanoHeading?: boolean
+  // Where the logo for the "logo" nadir patch comes from: a file picker or a URL field
+  nadirLogoField?: React.ReactNode
+}
+
+function parseSizeList(text: string): number[] {
+  return text
+    .split(/[\s,]+/)
+    .filter(Boolean)
+    .map(Number)
+    .filter((size) => Number.isFinite(size))
+}
+
+// Accepts "bdflru" as well as "b, d, f, l, r, u"
+function parseFaceOrder(text: string): ConversionOptions["faceOrder"] {
+  const letters = text.replace(/[\s,]+/g, "").toLowerCase().split("")
+  return letters.length > 0 ? (letters as ConversionOptions["faceOrder"]) : undefined
+}
+
+function parseSize(text: string): number | undefined {
+  const size = Number.parseInt(text)
+  return Number.isNaN(size) ? undefined : size
+}
+
+export function ConversionSettings({
+  value,
+  onChange,
+  disabled,
+  isFormatSupported = () => true,
+  isOutputSupported = () => true,
+  showToneMapping = true,
+  showCropFill = true,
+  showGPanoHeading = true,
+  nadirLogoField,
+}: ConversionSettingsProps) {
+  const [levelMode, setLevelMode] = useState<LevelMode>(
+    value.levelSizes ? "explicit" : value.minFaceSize || value.maxFaceSize ? "range" : "auto",
+  )
+  const [levelText, setLevelText] = useState(value.levelSizes?.join(", ") ?? "")
+  const [faceOrderText, setFaceOrderText] = useState(value.faceOrder?.join("") ?? "")
+
+  const validation = conversionOptionsSchema.safeParse(value)
+  const encoding = resolveTileEncoding(value)
+  const output = value.output ?? DEFAULT_OUTPUT_MODE
+  const isTiles = output === "tiles"
+  // Tiles and cubemap images are both 8-bit images with the same encodings and tone mapping
+  const isImageOutput = output !== "environment"
+  const preset = value.cubemapPreset ?? DEFAULT_CUBEMAP_PRESET
+  const nadirPatch = value.nadirPatch ?? DEFAULT_NADIR_PATCH
+  const tileTarget = value.tileTarget ?? DEFAULT_TILE_TARGET
+
+  const update = (patch: Partial<ConversionOptions>) => {
+    onChange({ ...value, ...patch })
+  }
+
+  const handleLevelModeChange = (mode: LevelMode) => {
+    setLevelMode(mode)
+    const { levelSizes, minFaceSize, maxFaceSize, ...rest } = value
+    if (mode === "explicit") {
+      const sizes = parseSizeList(levelText)
+      onChange({ ...rest, levelSizes: sizes.length > 0 ? (sizes as [number, ...number[]]) : undefined })
+    } else if (mode === "range") {
+      onChange({ ...rest, minFaceSize, maxFaceSize })
+    } else {
+      onChange(rest)
+    }
+  }
+
+  const handleFaceOrderChange = (text: string) => {
+    setFaceOrderText(text)
+    update({ faceOrder: parseFaceOrder(text) })
+  }
+
+  const handleLevelTextChange = (text: string) => {
+    setLevelText(text)
+    const sizes = parseSizeList(text)
+    update({ levelSizes: sizes.length > 0 ? (sizes as [number, ...number[]]) : undefined })
+  }
+
+  return (
+    <div className="space-y-4 rounded-lg border p-4">
+      <div className="flex items-center gap-2 font-medium">
+        <Settings2 className="w-4 h-4" />
+        Conversion Settings
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label>Output</Label>
+          <Select
+            value={value.output ?? DEFAULT_OUTPUT_MODE}
+            onValueChange={(output) =>
+              // EAC and nadir patches are not offered for environment maps, so drop them rather than leave a
+              // hidden error
+              update({
+                output: output as OutputMode,
+                ...(output === "environment" && { cubeProjection: undefined, nadirPatch: undefined }),
+              })
+            }
+            disabled={disabled}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {OUTPUT_MODES.map((output) => (
+                <SelectItem key={output} value={output} disabled={!isOutputSupported(output)}>
+                  {OUTPUT_MODE_LABELS[output]}
+                  {!isOutputSupported(output) && " (URL conversion only)"}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {isImageOutput && (
+          <div className="space-y-2">
+            <Label>Face Projection</Label>
+            <Select
+              value={value.cubeProjection ?? DEFAULT_CUBE_PROJECTION}
+              onValueChange={(projection) => update({ cubeProjection: projection as CubeProjection })}
+              disabled={disabled}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {CUBE_PROJECTIONS.map((projection) => (
+                  <SelectItem
+                    key={projection}
+                    value={projection}
+                    disabled={isTiles && tileTarget !== "marzipano" && projection === "eac"}
+                  >
+                    {CUBE_PROJECTION_LABELS[projection]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+      </div>
+
+      {output === "environment" && (
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label>Face Format</Label>
+            <Select
+              value={value.environmentFaceFormat ?? DEFAULT_ENVIRONMENT_FACE_FORMAT}
+              onValueChange={(format) => update({ environmentFaceFormat: format as EnvironmentFaceFormat })}
+              disabled={disabled}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {ENVIRONMENT_FACE_FORMATS.map((format) => (
+                  <SelectItem key={format} value={format}>
+                    {ENVIRONMENT_FACE_FORMAT_INFO[format].label} (.{ENVIRONMENT_FACE_FORMAT_INFO[format].extension})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="outputFaceSize">Face Size</Label>
+            <Input
+              id="outputFaceSize"
+              type="number"
+              placeholder="Nearest power of two"
+              value={value.outputFaceSize ?? ""}
+              onChange={(e) => update({ outputFaceSize: parseSize(e.target.value) })}
+              disabled={disabled}
+            />
+          </div>
+        </div>
+      )}
+
+      {output === "cubemap" && (
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label>Layout</Label>
+            <Select
+              value={value.cubemapLayout ?? DEFAULT_CUBEMAP_EXPORT_LAYOUT}
+              onValueChange={(layout) => update({ cubemapLayout: layout as CubemapExportLayout })}
+              disabled={disabled}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {CUBEMAP_EXPORT_LAYOUTS.map((layout) => (
+                  <SelectItem key={layout} value={layout}>
+                    {CUBEMAP_EXPORT_LAYOUT_LABELS[layout]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Orientation Preset</Label>
+            <Select
+              value={preset}
+              onValueChange={(preset) => update({ cubemapPreset: preset as CubemapPreset })}
+              disabled={disabled}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {CUBEMAP_PRESETS.map((preset) => (
+                  <SelectItem key={preset} value={preset}>
+                    {CUBEMAP_PRESET_INFO[preset].label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="faceOrder">Face Order</Label>
+            <Input
+              id="faceOrder"
+              placeholder={CUBEMAP_PRESET_INFO[preset].order.join("")}
+              value={faceOrderText}
+              onChange={(e) => handleFaceOrderChange(e.target.value)}
+              disabled={disabled}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="outputFaceSize">Face Size</Label>
+            <Input
+              id="outputFaceSize"
+              type="number"
+              placeholder="Nearest power of two"
+              value={value.outputFaceSize ?? ""}
+              onChange={(e) => update({ outputFaceSize: parseSize(e.target.value) })}
+              disabled={disabled}
+            />
+          </div>
+        </div>
+      )}
+
+      {isTiles && (
+        <div className="grid grid-cols-3 gap-4">
+          <div className="space-y-2">
+            <Label>Viewer</Label>
+            <Select
+              value={tileTarget}
+              onValueChange={(target) =>
+                // krpano and Pannellum only read standard cube faces
+                update({
+                  tileTarget: target as TileTarget,
+                  ...(target !== "marzipano" && { cubeProjection: undefined }),
+                })
+              }
+              disabled={disabled}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {TILE_TARGETS.map((target) => (
+                  <SelectItem key={target} value={target}>
+                    {TILE_TARGET_LABELS[target]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Tile Size</Label>
+            <Select
+              value={String(value.tileSize ?? DEFAULT_TILE_SIZE)}
+              onValueChange={(size) => update({ tileSize: Number(size) })}
+              disabled={disabled}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {TILE_SIZES.map((size) => (
+                  <SelectItem key={size} value={String(size)}>
+                    {size}x{size} pixels
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Zoom Levels</Label>
+            <Select
+              value={levelMode}
+              onValueChange={(mode) => handleLevelModeChange(mode as LevelMode)}
+              disabled={disabled}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="auto">From source resolution</SelectItem>
+                <SelectItem value="range">Min/max face size</SelectItem>
+                <SelectItem value="explicit">Explicit level sizes</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+      )}
+
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label>Resampling Filter</Label>
+          <Select
+            value={value.filter ?? DEFAULT_FILTER}
+            onValueChange={(filter) => update({ filter: filter as ResamplingFilter })}
+            disabled={disabled}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {RESAMPLING_FILTERS.map((filter) => (
+                <SelectItem key={filter} value={filter}>
+                  {FILTER_LABELS[filter]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {value.filter === "supersample" && (
+          <div className="space-y-2">
+            <Label>Samples per Pixel</Label>
+            <Select
+              value={String(value.supersampling ?? DEFAULT_SUPERSAMPLING)}
+              onValueChange={(factor) => update({ supersampling: Number(factor) })}
+              disabled={disabled}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {SUPERSAMPLING_FACTORS.map((factor) => (
+                  <SelectItem key={factor} value={String(factor)}>
+                    {factor}x{factor}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+      </div>
+
+      {isImageOutput && (
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label>{isTiles ? "Tile Format" : "Image Format"}</Label>
+            <Select
+              value={encoding.format}
+              onValueChange={(format) =>
+                update({ tileFormat: format as TileFormat, quality: undefined, lossless: undefined })
+              }
+              disabled={disabled}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {TILE_FORMATS.map((format) => (
+                  <SelectItem key={format} value={format} disabled={!isFormatSupported(format, false)}>
+                    {TILE_FORMAT_INFO[format].label}
+                    {!isFormatSupported(format, false) && " (URL conversion only)"}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {encoding.quality !== undefined && (
+            <div className="space-y-2">
+              <Label>Quality: {Math.round(encoding.quality * 100)}</Label>
+              <Slider
+                className="py-3"
+                min={1}
+                max={100}
+                step={1}
+                value={[Math.round(encoding.quality * 100)]}
+                onValueChange={([quality]) => update({ quality: quality / 100 })}
+                disabled={disabled}
+              />
+            </div>
+          )}
+        </div>
+      )}
+
+      {isImageOutput && encoding.format === "webp" && (
+        <div className="flex items-center justify-between">
+          <Label htmlFor="lossless">
+            Lossless WebP{!isFormatSupported("webp", true) && " (URL conversion only)"}
+          </Label>
+          <Switch
+            id="lossless"
+            checked={encoding.lossless}
+            onCheckedChange={(checked) => update({ lossless: checked || undefined })}
+            disabled={disabled || !isFormatSupported("webp", true)}
+          />
+        </div>
+      )}
+
+      {isTiles && levelMode === "range" && (
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="minFaceSize">Min Face Size</Label>
+            <Input
+              id="minFaceSize"
+              type="number"
+              placeholder="Tile size"
+              value={value.minFaceSize ?? ""}
+              onChange={(e) => update({ minFaceSize: parseSize(e.target.value) })}
+              disabled={disabled}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="maxFaceSize">Max Face Size</Label>
+            <Input
+              id="maxFaceSize"
+              type="number"
+              placeholder="Native resolution"
+              value={value.maxFaceSize ?? ""}
+              onChange={(e) => update({ maxFaceSize: parseSize(e.target.value) })}
+              disabled={disabled}
+            />
+          </div>
+        </div>
+      )}
+
+      {isTiles && levelMode === "explicit" && (
+        <div className="space-y-2">
+          <Label htmlFor="levelSizes">Level Sizes</Label>
+          <Input
+            id="levelSizes"
+            placeholder="512, 1024, 2048"
+            value={levelText}
+            onChange={(e) => handleLevelTextChange(e.target.value)}
+            disabled={disabled}
+          />
+        </div>
+      )}
+
+      <div className="grid grid-cols-3 gap-4">
+        {ORIENTATION_SLIDERS.map(({ key, label, range }) => (
+          <div key={key} className="space-y-2">
+            <Label>
+              {label}: {(value[key] ?? 0).toFixed(1)}°
+            </Label>
+            <Slider
+              className="py-3"
+              min={-range}
+              max={range}
+              step={0.5}
+              value={[value[key] ?? 0]}
+              onValueChange={([angle]) => update({ [key]: angle === 0 ? undefined : angle })}
+              disabled={disabled}
+            />
+          </div>
+        ))}
+      </div>
+
+      {isImageOutput && (
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Nadir Patch</Label>
+              <Select
+                value={nadirPatch}
+                onValueChange={(patch) => update({ nadirPatch: patch === "none" ? undefined : (patch as NadirPatch) })}
+                disabled={disabled}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {NADIR_PATCHES.map((patch) => (
+                    <SelectItem key={patch} value={patch}>
+                      {NADIR_PATCH_LABELS[patch]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {nadirPatch === "disc" && (
+              <div className="space-y-2">
+                <Label htmlFor="nadirColor">Disc Colour</Label>
+                <Input
+                  id="nadirColor"
+                  type="color"
+                  value={value.nadirColor ?? DEFAULT_NADIR_COLOR}
+                  onChange={(e) => update({ nadirColor: e.target.value })}
+                  disabled={disabled}
+                />
+              </div>
+            )}
+
+            {nadirPatch === "logo" && nadirLogoField}
+          </div>
+
+          {nadirPatch !== "none" && (
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Patch Size: {value.nadirSize ?? DEFAULT_NADIR_SIZE}°</Label>
+                <Slider
+                  className="py-3"
+                  min={1}
+                  max={90}
+                  step={1}
+                  value={[value.nadirSize ?? DEFAULT_NADIR_SIZE]}
+                  onValueChange={([size]) => update({ nadirSize: size })}
+                  disabled={disabled}
+                />
+              </div>
+              {nadirPatch === "logo" && (
+                <div className="space-y-2">
+                  <Label>Logo Rotation: {value.nadirRotation ?? 0}°</Label>
+                  <Slider
+                    className="py-3"
+                    min={-180}
+                    max={180}
+                    step={1}
+                    value={[value.nadirRotation ?? 0]}
+                    onValueChange={([rotation]) => update({ nadirRotation: rotation === 0 ? undefined : rotation })}
+                    disabled={disabled}
+                  />
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+
+      {showGPanoHeading && (
+        <div className="flex items-center justify-between">
+          <Label htmlFor="alignGPanoHeading">Turn north to the front (GPano heading)</Label>
+          <Switch
+            id="alignGPanoHeading"
+            checked={value.alignGPanoHeading ?? false}
+            onCheckedChange={(checked) => update({ alignGPanoHeading: checked || undefined })}
+            disabled={disabled}
+          />
+        </div>
+      )}
+
+      {showCropFill && (
+        <div className="space-y-4">
+          <div className="flex items-center justify-between">
+            <Label htmlFor="applyGPano">Place cropped panoramas using GPano metadata</Label>
+            <Switch
+              id="applyGPano"
+              checked={value.applyGPano ?? true}
+              onCheckedChange={(checked) => update({ applyGPano: checked ? undefined : false })}
+              disabled={disabled}
+            />
+          </div>
+
+          {value.applyGPano !== false && (
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Uncovered Area</Label>
+                <Select
+                  value={value.cropFill ?? DEFAULT_CROP_FILL}
+                  onValueChange={(fill) => update({ cropFill: fill as CropFill })}
+                  disabled={disabled}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {CROP_FILLS.map((fill) => (
+                      <SelectItem key={fill} value={fill}>
+                        {CROP_FILL_LABELS[fill]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              {(value.cropFill ?? DEFAULT_CROP_FILL) === "color" && (
+                <div className="space-y-2">
+                  <Label htmlFor="cropFillColor">Fill Colour</Label>
+                  <Input
+                    id="cropFillColor"
+                    type="color"
+                    value={value.cropFillColor ?? DEFAULT_CROP_FILL_COLOR}
+                    onChange={(e) => update({ cropFillColor: e.target.value })}
+                    disabled={disabled}
+                  />
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+
+      {isImageOutput && showToneMapping && (
+        <div className="grid grid-cols-3 gap-4">
+          <div className="space-y-2">
+            <Label>HDR Tone Mapping</Label>
+            <Select
+              value={value.toneMapping ?? DEFAULT_TONE_MAPPING}
+              onValueChange={(toneMapping) => update({ toneMapping: toneMapping as ToneMapping })}
+              disabled={disabled}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {TONE_MAPPINGS.map((toneMapping) => (
+                  <SelectItem key={toneMapping} value={toneMapping}>
+                    {TONE_MAPPING_LABELS[toneMapping]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Exposure: {(value.exposure ?? DEFAULT_EXPOSURE).toFixed(1)} EV</Label>
+            <Slider
+              className="py-3"
+              min={-5}
+              max={5}
+              step={0.1}
+              value={[value.exposure ?? DEFAULT_EXPOSURE]}
+              onValueChange={([exposure]) => update({ exposure })}
+              disabled={disabled}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Gamma: {(value.gamma ?? DEFAULT_GAMMA).toFixed(1)}</Label>
+            <Slider
+              className="py-3"
+              min={1}
+              max={3}
+              step={0.1}
+              value={[value.gamma ?? DEFAULT_GAMMA]}
+              onValueChange={([gamma]) => update({ gamma })}
+              disabled={disabled}
+            />
+          </div>
+        </div>
+      )}
+
+      {isTiles && (
+        <div className="flex items-center justify-between">
+          <Label htmlFor="includeFallback">
+            {tileTarget === "pannellum" ? "Include fallback faces (no WebGL)" : "Include 256px fallback level"}
+          </Label>
+          <Switch
+            id="includeFallback"
+            checked={value.includeFallback ?? tileTarget === "marzipano"}
+            onCheckedChange={(checked) => update({ includeFallback: checked })}
+            disabled={disabled}
+          />
+        </div>
+      )}
+
+      {!validation.success && <p className="text-sm text-red-600">{formatOptionsError(validation.error)}</p>}
+    </div>
+  )
+}
@@ -0,0 +1,33 @@
+"use client"
+
+import { gpanoCoverage, isCroppedPanorama, type GPanoMetadata } from "@/lib/panorama/gpano"
+
+interface GPanoSummaryProps {
+  gpano: GPanoMetadata
+}
+
+// What the converter read from the file's GPano XMP, shown before and after converting
+export function GPanoSummary({ gpano }: GPanoSummaryProps) {
+  const coverage = gpanoCoverage(gpano)
+  const cropped = isCroppedPanorama(gpano)
+
+  return (
+    <div className="rounded-lg border border-blue-200 bg-blue-50 p-3 text-sm text-blue-800 space-y-1">
+      <div className="font-medium">
+        GPano metadata{gpano.projectionType && ` (${gpano.projectionType})`}:{" "}
+        {cropped
+          ? `covers ${Math.round(coverage.horizontal)}° × ${Math.round(coverage.vertical)}° of the sphere`
+          : (gpano.projectionType ?? "equirectangular") === "equirectangular"
+            ? "full sphere"
+            : "not equirectangular, converted as it is"}
+      </div>
+      {cropped && (
+        <div>
+          {gpano.croppedAreaWidth}x{gpano.croppedAreaHeight} crop at ({gpano.croppedAreaLeft}, {gpano.croppedAreaTop})
+          in a {gpano.fullPanoWidth}x{gpano.fullPanoHeight} panorama
+        </div>
+      )}
+      {gpano.poseHeadingDegrees !== undefined && <div>Heading: {gpano.poseHeadingDegrees}°</div>}
+    </div>
+  )
+}
@@ -0,0 +1,173 @@
+"use client"
+
+import type React from "react"
+
+import { useEffect, useRef, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+import { RotateCcw } from "lucide-react"
+import type { ConversionOptions } from "@/lib/panorama/options"
+import {
+  levelThrough,
+  orientationMatrix,
+  resolveOrientation,
+  rotateDirection,
+  yawTowards,
+  type Orientation,
+} from "@/lib/panorama/orientation"
+import { decodePreview, imageToCanvas } from "@/lib/panorama/preview"
+import { directionToEquirectangular, equirectangularToDirection } from "@/lib/panorama/projection"
+
+interface HorizonLevelerProps {
+  file: File
+  value: ConversionOptions
+  onChange: (value: ConversionOptions) => void
+  disabled?: boolean
+}
+
+const HORIZON_STEPS = 360
+
+// Source positions (eqU, eqV) of the output horizon, split wherever the curve wraps around the seam
+function horizonSegments(orientation: Orientation): [number, number][][] {
+  const m = orientationMatrix(orientation)
+  const segments: [number, number][][] = [[]]
+  let previous: number | null = null
+  for (let i = 0; i <= HORIZON_STEPS; i++) {
+    const azimuth = (i / HORIZON_STEPS) * 2 * Math.PI
+    const viewer: [number, number, number] = [Math.sin(azimuth), 0, Math.cos(azimuth)]
+    const point = directionToEquirectangular(...(m ? rotateDirection(m, ...viewer) : viewer))
+    if (previous !== null && Math.abs(point[0] - previous) > 0.5) {
+      segments.push([])
+    }
+    segments[segments.length - 1].push(point)
+    previous = point[0]
+  }
+  return segments
+}
+
+function frontPoint(orientation: Orientation): [number, number] {
+  const m = orientationMatrix(orientation)
+  return m ? directionToEquirectangular(...rotateDirection(m, 0, 0, 1)) : directionToEquirectangular(0, 0, 1)
+}
+
+function roundAngle(angle: number): number | undefined {
+  const rounded = Math.round(angle * 10) / 10
+  return rounded === 0 ? undefined : rounded
+}
+
+// Drag a point of the preview onto the horizon to level the panorama, double-click to make a point the front
+export function HorizonLeveler({ file, value, onChange, disabled }: HorizonLevelerProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+  const [preview, setPreview] = useState<HTMLCanvasElement | null>(null)
+  const [isDragging, setIsDragging] = useState(false)
+  const orientation = resolveOrientation(value)
+
+  const { applyGPano: placeCrop, alignGPanoHeading, cropFill, cropFillColor } = value
+  useEffect(() => {
+    let cancelled = false
+    setPreview(null)
+    decodePreview(file, { applyGPano: placeCrop, alignGPanoHeading, cropFill, cropFillColor })
+      .then((image) => {
+        if (!cancelled) setPreview(imageToCanvas(image))
+      })
+      .catch((error) => console.error("[v0] Horizon preview failed:", error))
+    return () => {
+      cancelled = true
+    }
+  }, [file, placeCrop, alignGPanoHeading, cropFill, cropFillColor])
+
+  useEffect(() => {
+    const canvas = canvasRef.current
+    if (!canvas || !preview) return
+    canvas.width = preview.width
+    canvas.height = preview.height
+    const ctx = canvas.getContext("2d")!
+    ctx.drawImage(preview, 0, 0)
+
+    ctx.lineWidth = Math.max(2, canvas.width / 400)
+    ctx.strokeStyle = "#facc15"
+    for (const segment of horizonSegments(orientation)) {
+      ctx.beginPath()
+      segment.forEach(([u, v], i) => {
+        const x = u * canvas.width
+        const y = v * canvas.height
+        if (i === 0) ctx.moveTo(x, y)
+        else ctx.lineTo(x, y)
+      })
+      ctx.stroke()
+    }
+
+    const [frontU, frontV] = frontPoint(orientation)
+    ctx.fillStyle = "#ef4444"
+    ctx.beginPath()
+    ctx.arc(frontU * canvas.width, frontV * canvas.height, ctx.lineWidth * 3, 0, 2 * Math.PI)
+    ctx.fill()
+  }, [preview, orientation.yaw, orientation.pitch, orientation.roll])
+
+  const pointerDirection = (event: React.MouseEvent<HTMLCanvasElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect()
+    const u = Math.min(1, Math.max(0, (event.clientX - rect.left) / rect.width))
+    const v = Math.min(1, Math.max(0, (event.clientY - rect.top) / rect.height))
+    return equirectangularToDirection(u, v)
+  }
+
+  const update = (next: Orientation) => {
+    onChange({
+      ...value,
+      yaw: roundAngle(next.yaw),
+      pitch: roundAngle(Math.max(-90, Math.min(90, next.pitch))),
+      roll: roundAngle(next.roll),
+    })
+  }
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    if (disabled) return
+    event.currentTarget.setPointerCapture(event.pointerId)
+    // Only moving the pointer levels, so a double-click leaves the horizon where it is
+    setIsDragging(true)
+  }
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!isDragging || disabled) return
+    update(levelThrough(orientation, pointerDirection(event)))
+  }
+
+  const handleDoubleClick = (event: React.MouseEvent<HTMLCanvasElement>) => {
+    if (disabled) return
+    update(yawTowards(orientation, pointerDirection(event)))
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <Label>Horizon</Label>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => update({ yaw: 0, pitch: 0, roll: 0 })}
+          disabled={disabled || (orientation.yaw === 0 && orientation.pitch === 0 && orientation.roll === 0)}
+        >
+          <RotateCcw className="w-4 h-4 mr-2" />
+          Reset
+        </Button>
+      </div>
+      {preview ? (
+        <canvas
+          ref={canvasRef}
+          className="w-full rounded-lg border cursor-crosshair touch-none"
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={() => setIsDragging(false)}
+          onPointerCancel={() => setIsDragging(false)}
+          onDoubleClick={handleDoubleClick}
+        />
+      ) : (
+        <div className="aspect-[2/1] w-full rounded-lg border bg-gray-100 animate-pulse" />
+      )}
+      <p className="text-xs text-gray-500">
+        Drag a point that should be level (a distant skyline, a water line) onto the yellow horizon. Double-click to
+        make a point the front of the cube (red marker).
+      </p>
+    </div>
+  )
+}
@@ -0,0 +1,160 @@
+"use client"
+
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Slider } from "@/components/ui/slider"
+import { Textarea } from "@/components/ui/textarea"
+import { ArrowUp, Info, Trash2 } from "lucide-react"
+import type { HotspotOptions } from "@/lib/panorama/hotspots"
+import type { InfoHotspot, LinkHotspot } from "@/lib/panorama/options"
+
+export type HotspotKind = "info" | "link"
+
+export interface SelectedHotspot {
+  kind: HotspotKind
+  index: number
+}
+
+interface HotspotEditorProps {
+  value: HotspotOptions
+  onChange: (value: HotspotOptions) => void
+  selected: SelectedHotspot | null
+  onSelect: (selected: SelectedHotspot | null) => void
+}
+
+function describePosition(hotspot: { yaw: number; pitch: number }): string {
+  return `yaw ${hotspot.yaw.toFixed(1)}°, pitch ${hotspot.pitch.toFixed(1)}°`
+}
+
+// Fields of the selected hotspot, and the list of all of them
+export function HotspotEditor({ value, onChange, selected, onSelect }: HotspotEditorProps) {
+  const infoHotspots = value.infoHotspots ?? []
+  const linkHotspots = value.linkHotspots ?? []
+  const info = selected?.kind === "info" ? infoHotspots[selected.index] : undefined
+  const link = selected?.kind === "link" ? linkHotspots[selected.index] : undefined
+
+  const updateInfo = (index: number, patch: Partial<InfoHotspot>) =>
+    onChange({
+      ...value,
+      infoHotspots: infoHotspots.map((hotspot, i) => (i === index ? { ...hotspot, ...patch } : hotspot)),
+    })
+  const updateLink = (index: number, patch: Partial<LinkHotspot>) =>
+    onChange({
+      ...value,
+      linkHotspots: linkHotspots.map((hotspot, i) => (i === index ? { ...hotspot, ...patch } : hotspot)),
+    })
+
+  const remove = ({ kind, index }: SelectedHotspot) => {
+    onSelect(null)
+    onChange(
+      kind === "info"
+        ? { ...value, infoHotspots: infoHotspots.filter((_, i) => i !== index) }
+        : { ...value, linkHotspots: linkHotspots.filter((_, i) => i !== index) },
+    )
+  }
+
+  const entries: { hotspot: SelectedHotspot; label: string; position: string }[] = [
+    ...infoHotspots.map((hotspot, index) => ({
+      hotspot: { kind: "info" as const, index },
+      label: hotspot.title || "Untitled info",
+      position: describePosition(hotspot),
+    })),
+    ...linkHotspots.map((hotspot, index) => ({
+      hotspot: { kind: "link" as const, index },
+      label: hotspot.target || "Link without a target",
+      position: describePosition(hotspot),
+    })),
+  ]
+
+  return (
+    <div className="space-y-3">
+      {selected && info && (
+        <div className="space-y-3 rounded-lg border p-3">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="hotspotTitle">Title</Label>
+              <Input
+                id="hotspotTitle"
+                value={info.title}
+                onChange={(e) => updateInfo(selected.index, { title: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="hotspotImage">Image URL (optional)</Label>
+              <Input
+                id="hotspotImage"
+                placeholder="https://… or images/photo.jpg"
+                value={info.image ?? ""}
+                onChange={(e) => updateInfo(selected.index, { image: e.target.value || undefined })}
+              />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="hotspotText">Text</Label>
+            <Textarea
+              id="hotspotText"
+              rows={3}
+              value={info.text}
+              onChange={(e) => updateInfo(selected.index, { text: e.target.value })}
+            />
+          </div>
+        </div>
+      )}
+
+      {selected && link && (
+        <div className="grid grid-cols-2 gap-4 rounded-lg border p-3">
+          <div className="space-y-2">
+            <Label htmlFor="hotspotTarget">Target Scene</Label>
+            <Input
+              id="hotspotTarget"
+              placeholder="../kitchen/index.html"
+              value={link.target}
+              onChange={(e) => updateLink(selected.index, { target: e.target.value })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Rotation: {link.rotation ?? 0}°</Label>
+            <Slider
+              className="py-3"
+              min={-180}
+              max={180}
+              step={5}
+              value={[link.rotation ?? 0]}
+              onValueChange={([rotation]) => updateLink(selected.index, { rotation })}
+            />
+          </div>
+        </div>
+      )}
+
+      {entries.length > 0 && (
+        <div className="space-y-1">
+          {entries.map(({ hotspot, label, position }) => {
+            const isSelected = selected?.kind === hotspot.kind && selected.index === hotspot.index
+            return (
+              <div
+                key={`${hotspot.kind}-${hotspot.index}`}
+                className={`flex items-center justify-between rounded border px-2 py-1 text-sm ${
+                  isSelected ? "border-blue-500 bg-blue-50" : ""
+                }`}
+              >
+                <button type="button" className="flex min-w-0 items-center gap-2" onClick={() => onSelect(hotspot)}>
+                  {hotspot.kind === "info" ? (
+                    <Info className="w-4 h-4 shrink-0" />
+                  ) : (
+                    <ArrowUp className="w-4 h-4 shrink-0" />
+                  )}
+                  <span className="truncate">{label}</span>
+                  <span className="shrink-0 text-gray-500">{position}</span>
+                </button>
+                <Button size="sm" variant="ghost" onClick={() => remove(hotspot)}>
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            )
+          })}
+        </div>
+      )}
+    </div>
+  )
+}
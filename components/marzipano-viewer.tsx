@@ -1,70 +1,234 @@
 "use client"
 
-import { useEffect, useRef } from "react"
+import type React from "react"
+
+import { useEffect, useRef, useState } from "react"
+import { HotspotEditor, type HotspotKind, type SelectedHotspot } from "@/components/hotspot-editor"
+import { Button } from "@/components/ui/button"
+import { ArrowUp, Info, Move, RotateCcw } from "lucide-react"
+import type { HotspotOptions } from "@/lib/panorama/hotspots"
+import type { TileSource } from "@/lib/panorama/tile-source"
+import type { TileConfig } from "@/lib/panorama/tiles"
+import {
+  DEFAULT_VIEW,
+  clampView,
+  createPanoramaRenderer,
+  screenToView,
+  viewToScreen,
+  type PanoramaRenderer,
+  type ViewState,
+} from "@/lib/panorama/viewer"
 
 interface MarzipanoViewerProps {
-  cubemapData: any
+  source: TileSource
+  hotspots?: HotspotOptions
+  // Without it the hotspots are shown but cannot be edited
+  onHotspotsChange?: (hotspots: HotspotOptions) => void
+}
+
+type Mode = "look" | HotspotKind
+
+// Scroll speed: the field of view scales by e^(deltaY * WHEEL_ZOOM)
+const WHEEL_ZOOM = 0.001
+// A press that moves less than this many pixels is a click, which places a hotspot
+const CLICK_DISTANCE = 4
+const DEGREES = 180 / Math.PI
+
+const MODES: { mode: Mode; label: string; icon: React.ReactNode }[] = [
+  { mode: "look", label: "Look", icon: <Move className="w-4 h-4" /> },
+  { mode: "info", label: "Info", icon: <Info className="w-4 h-4" /> },
+  { mode: "link", label: "Link", icon: <ArrowUp className="w-4 h-4" /> },
+]
+
+// Hotspot positions are stored in degrees, to a hundredth
+function toDegrees(radians: number): number {
+  return Math.round(radians * DEGREES * 100) / 100
 }
 
-export function MarzipanoViewer({ cubemapData }: MarzipanoViewerProps) {
-  const viewerRef = useRef<HTMLDivElement>(null)
+// Drag to look around, scroll to zoom; in the Info and Link modes a click places a hotspot
+export function MarzipanoViewer({ source, hotspots = {}, onHotspotsChange }: MarzipanoViewerProps) {
+  const containerRef = useRef<HTMLDivElement>(null)
+  const rendererRef = useRef<PanoramaRenderer | null>(null)
+  const viewRef = useRef<ViewState>(DEFAULT_VIEW)
+  const dragRef = useRef<{ x: number; y: number; startX: number; startY: number } | null>(null)
+  const [status, setStatus] = useState<{ mode: PanoramaRenderer["mode"]; level: TileConfig } | null>(null)
+  // Mirrors viewRef and the container size so the hotspot markers follow the view
+  const [view, setView] = useState<ViewState>(DEFAULT_VIEW)
+  const [size, setSize] = useState({ width: 0, height: 0 })
+  const [mode, setMode] = useState<Mode>("look")
+  const [selected, setSelected] = useState<SelectedHotspot | null>(null)
+
+  const look = (next: ViewState) => {
+    viewRef.current = clampView(next)
+    setView(viewRef.current)
+    rendererRef.current?.render(viewRef.current)
+  }
 
   useEffect(() => {
-    if (!viewerRef.current || !cubemapData) return
-
-    // Create a simple preview using the center tiles
-    const canvas = document.createElement("canvas")
-    canvas.width = 512
-    canvas.height = 512
-    canvas.style.width = "100%"
-    canvas.style.height = "400px"
-    canvas.style.objectFit = "cover"
-    canvas.style.borderRadius = "8px"
-
-    const ctx = canvas.getContext("2d")!
-
-    // Draw a preview using the front face center tile
-    const frontTileKey = `${Math.floor(cubemapData.maxZoom / 2)}/4/0/0`
-    const tileData = cubemapData.tiles[frontTileKey]
-
-    if (tileData) {
-      const img = new Image()
-      img.onload = () => {
-        ctx.drawImage(img, 0, 0, 512, 512)
-
-        // Add overlay text
-        ctx.fillStyle = "rgba(0, 0, 0, 0.7)"
-        ctx.fillRect(0, 0, 512, 60)
-        ctx.fillStyle = "white"
-        ctx.font = "16px sans-serif"
-        ctx.fillText("Cubemap Preview (Front Face)", 10, 30)
-        ctx.font = "12px sans-serif"
-        ctx.fillText(`Zoom Level: ${Math.floor(cubemapData.maxZoom / 2)} | Face: 4 (Front)`, 10, 50)
-      }
-      img.src = tileData
-    }
+    const container = containerRef.current
+    if (!container) return
 
-    viewerRef.current.innerHTML = ""
-    viewerRef.current.appendChild(canvas)
+    // Levels are reported from the first frame on, after the renderer exists
+    const renderer = createPanoramaRenderer(container, source, (level) => setStatus({ mode: renderer.mode, level }))
+    rendererRef.current = renderer
+    renderer.render(viewRef.current)
+
+    // React's wheel listener is passive, so it cannot stop the page from scrolling
+    const handleWheel = (event: WheelEvent) => {
+      event.preventDefault()
+      viewRef.current = clampView({
+        ...viewRef.current,
+        fov: viewRef.current.fov * Math.exp(event.deltaY * WHEEL_ZOOM),
+      })
+      setView(viewRef.current)
+      renderer.render(viewRef.current)
+    }
+    container.addEventListener("wheel", handleWheel, { passive: false })
+    const observer = new ResizeObserver(() => {
+      setSize({ width: container.clientWidth, height: container.clientHeight })
+      renderer.render(viewRef.current)
+    })
+    observer.observe(container)
 
     return () => {
-      if (viewerRef.current) {
-        viewerRef.current.innerHTML = ""
-      }
+      container.removeEventListener("wheel", handleWheel)
+      observer.disconnect()
+      renderer.destroy()
+      rendererRef.current = null
+      setStatus(null)
+    }
+  }, [source])
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLDivElement>) => {
+    event.currentTarget.setPointerCapture(event.pointerId)
+    dragRef.current = { x: event.clientX, y: event.clientY, startX: event.clientX, startY: event.clientY }
+  }
+
+  // The panorama follows the pointer: one screen pixel turns the view by the angle it covers
+  const handlePointerMove = (event: React.PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current
+    if (!drag) return
+    const view = viewRef.current
+    const radiansPerPixel = view.fov / event.currentTarget.clientHeight
+    look({
+      ...view,
+      yaw: view.yaw - (event.clientX - drag.x) * radiansPerPixel,
+      pitch: view.pitch + (event.clientY - drag.y) * radiansPerPixel,
+    })
+    dragRef.current = { ...drag, x: event.clientX, y: event.clientY }
+  }
+
+  const handlePointerUp = (event: React.PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current
+    dragRef.current = null
+    if (!drag || mode === "look" || !onHotspotsChange) return
+    if (Math.hypot(event.clientX - drag.startX, event.clientY - drag.startY) > CLICK_DISTANCE) return
+
+    const rect = event.currentTarget.getBoundingClientRect()
+    const { yaw, pitch } = screenToView(
+      viewRef.current,
+      rect.width,
+      rect.height,
+      event.clientX - rect.left,
+      event.clientY - rect.top,
+    )
+    const position = { yaw: toDegrees(yaw), pitch: toDegrees(pitch) }
+    if (mode === "info") {
+      const infoHotspots = [...(hotspots.infoHotspots ?? []), { ...position, title: "", text: "" }]
+      onHotspotsChange({ ...hotspots, infoHotspots })
+      setSelected({ kind: "info", index: infoHotspots.length - 1 })
+    } else {
+      const linkHotspots = [...(hotspots.linkHotspots ?? []), { ...position, target: "", rotation: 0 }]
+      onHotspotsChange({ ...hotspots, linkHotspots })
+      setSelected({ kind: "link", index: linkHotspots.length - 1 })
     }
-  }, [cubemapData])
+  }
+
+  const markers = [
+    ...(hotspots.infoHotspots ?? []).map((hotspot, index) => ({
+      hotspot: { kind: "info" as const, index },
+      position: hotspot,
+      title: hotspot.title,
+      icon: <Info className="w-4 h-4" />,
+    })),
+    ...(hotspots.linkHotspots ?? []).map((hotspot, index) => ({
+      hotspot: { kind: "link" as const, index },
+      position: hotspot,
+      title: hotspot.target,
+      icon: <ArrowUp className="w-4 h-4" style={{ transform: `rotate(${hotspot.rotation ?? 0}deg)` }} />,
+    })),
+  ]
 
   return (
     <div className="space-y-4">
-      <div ref={viewerRef} className="bg-gray-100 rounded-lg min-h-[400px] flex items-center justify-center">
-        <div className="text-gray-500">Loading preview...</div>
+      {onHotspotsChange && (
+        <div className="flex flex-wrap items-center gap-1">
+          {MODES.map(({ mode: option, label, icon }) => (
+            <Button
+              key={option}
+              size="sm"
+              variant={mode === option ? "default" : "outline"}
+              onClick={() => setMode(option)}
+            >
+              {icon}
+              <span className="ml-1">{label}</span>
+            </Button>
+          ))}
+        </div>
+      )}
+      <div
+        ref={containerRef}
+        className={`relative h-[400px] w-full overflow-hidden rounded-lg bg-black touch-none select-none ${
+          mode === "look" ? "cursor-grab" : "cursor-crosshair"
+        }`}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={() => (dragRef.current = null)}
+      >
+        {status && (
+          <div className="absolute left-2 top-2 z-10 rounded bg-black/60 px-2 py-1 text-xs text-white">
+            {status.mode === "webgl" ? "WebGL" : "CSS 3D fallback"} · {status.level.size}px faces
+          </div>
+        )}
+        {size.width > 0 &&
+          markers.map(({ hotspot, position, title, icon }) => {
+            const screen = viewToScreen(view, size.width, size.height, position.yaw / DEGREES, position.pitch / DEGREES)
+            if (!screen) return null
+            const isSelected = selected?.kind === hotspot.kind && selected.index === hotspot.index
+            return (
+              <button
+                key={`${hotspot.kind}-${hotspot.index}`}
+                type="button"
+                title={title}
+                className={`absolute z-10 -translate-x-1/2 -translate-y-1/2 rounded-full p-1.5 text-white ${
+                  isSelected ? "bg-blue-600 ring-2 ring-white" : "bg-black/60"
+                }`}
+                style={{ left: screen[0], top: screen[1] }}
+                // Kept from the panorama, so selecting a marker neither drags the view nor places a hotspot
+                onPointerDown={(event) => event.stopPropagation()}
+                onPointerUp={(event) => event.stopPropagation()}
+                onClick={() => setSelected(hotspot)}
+              >
+                {icon}
+              </button>
+            )
+          })}
       </div>
-      <div className="text-sm text-gray-600">
+      <div className="flex items-center justify-between gap-4 text-sm text-gray-600">
         <p>
-          <strong>Note:</strong> This is a simplified preview showing the front face of your cubemap.
+          {mode === "look"
+            ? "Drag to look around and scroll to zoom. Sharper levels load as you zoom in."
+            : `Click the panorama to place ${mode === "info" ? "an info" : "a link"} hotspot; drag to look around.`}
         </p>
-        <p>Download the full cubemap to use with Marzipano viewer for complete 360° navigation.</p>
+        <Button variant="ghost" size="sm" onClick={() => look(DEFAULT_VIEW)}>
+          <RotateCcw className="w-4 h-4 mr-2" />
+          Reset View
+        </Button>
       </div>
+      {onHotspotsChange && (
+        <HotspotEditor value={hotspots} onChange={onHotspotsChange} selected={selected} onSelect={setSelected} />
+      )}
     </div>
   )
 }
@@ -1,301 +1,475 @@
 "use client"
 import JSZip from "jszip"
+import {
+  composeCubemapExport,
+  createCubemapExportConfig,
+  resolveCubemapExport,
+  type CubemapExportSettings,
+} from "@/lib/panorama/cubemap-export"
+import type { FaceWorkerRequest, FaceWorkerResponse } from "@/lib/panorama/face.worker"
+import { TILE_FORMAT_INFO, resolveTileEncoding, type TileEncoding } from "@/lib/panorama/formats"
+import { applyGPano } from "@/lib/panorama/gpano"
+import { decodeHDRSource, detectHDRFormat } from "@/lib/panorama/hdr"
+import { KRPANO_TOUR_FILE, createKrpanoTourXml } from "@/lib/panorama/krpano"
+import {
+  MARZIPANO_DATA_FILE,
+  MARZIPANO_INDEX_FILE,
+  MARZIPANO_PREVIEW_ENCODING,
+  MARZIPANO_PREVIEW_FILE,
+  MARZIPANO_SCRIPT_FILE,
+  createMarzipanoData,
+  createMarzipanoIndexHtml,
+  createMarzipanoPreview,
+  hasMarzipanoPreview,
+  hasMarzipanoProject,
+  marzipanoDataScript,
+  marzipanoSceneName,
+} from "@/lib/panorama/marzipano"
+import { patchNadir } from "@/lib/panorama/nadir"
+import {
+  conversionOptionsSchema,
+  formatOptionsError,
+  type ConversionOptions,
+  type OutputMode,
+  type TileFormat,
+} from "@/lib/panorama/options"
+import { FACE_NAMES, generateCubeFace, type FaceName, type RGBAImage } from "@/lib/panorama/projection"
+import { REGIONS_FILE, regionsRecord } from "@/lib/panorama/regions"
+import {
+  computeTileConfigs,
+  countTiles,
+  createCubemapConfig,
+  generateCubemapTiles,
+  outputFaceSize,
+  parseTilePath,
+  tileFilePath,
+  tilePath,
+  type SourceInfo,
+  type TileConfig,
+} from "@/lib/panorama/tiles"
+
+// Every worker holds its own decoded copy of the source, so the pool shrinks for very large panoramas
+const WORKER_MEMORY_BUDGET = 1024 * 1024 * 1024
+const MAX_WORKERS = 6
+
+// Served from the installed package by app/api/viewer, so exported tours carry their own viewer
+const MARZIPANO_SCRIPT_URL = "/api/viewer/marzipano.js"
+
+interface ConversionJob {
+  file: File
+  options: ConversionOptions
+  // Only used by the "logo" nadir patch
+  nadirLogo: File | null
+  signal?: AbortSignal
+  // Called once the source size is known and the levels are resolved, before the first tile
+  onLevels: (tileConfigs: TileConfig[]) => void
+  onTile: (path: string, blob: Blob) => void
+  // Cubemap image output receives whole upright faces instead of tiles
+  onFace: (face: number, image: RGBAImage) => void
+}
 
-export class PanoramaConverter {
-  private canvas: HTMLCanvasElement
-  private ctx: CanvasRenderingContext2D
-  private tileConfigs = [
-    { tileSize: 256, size: 256, fallbackOnly: true },
-    { tileSize: 512, size: 512 },
-    { tileSize: 512, size: 1024 },
-    { tileSize: 512, size: 2048 },
-  ]
-
-  private faceNames = ["r", "l", "u", "d", "f", "b"] // right, left, up, down, front, back
-
-  constructor() {
-    this.canvas = document.createElement("canvas")
-    this.ctx = this.canvas.getContext("2d")!
-  }
-
-  async convertToCubemap(file: File, onProgress?: (progress: number) => void): Promise<any> {
-    return new Promise((resolve, reject) => {
-      const img = new Image()
-      img.crossOrigin = "anonymous"
-
-      img.onload = async () => {
-        try {
-          const result = await this.processImage(img, onProgress)
-          resolve(result)
-        } catch (error) {
-          reject(error)
-        }
-      }
-
-      img.onerror = () => reject(new Error("Failed to load image"))
-      img.src = URL.createObjectURL(file)
-    })
-  }
-
-  private async processImage(img: HTMLImageElement, onProgress?: (progress: number) => void): Promise<any> {
-    const width = img.width
-    const height = img.height
+function isCubemapJob(job: ConversionJob): boolean {
+  return job.options.output === "cubemap"
+}
 
-    const maxZoom = this.tileConfigs.length - 1
-    const zoomLevels = maxZoom + 1
+function abortError(): DOMException {
+  return new DOMException("Conversion cancelled", "AbortError")
+}
 
-    const tiles: { [key: string]: string } = {}
-    let totalTiles = 0
-    let processedTiles = 0
+// Rejects as soon as the signal fires, so awaiting a terminated worker never hangs
+function withAbort<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) return promise
+  if (signal.aborted) return Promise.reject(abortError())
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(abortError())
+    signal.addEventListener("abort", onAbort, { once: true })
+    promise.then(
+      (value) => {
+        signal.removeEventListener("abort", onAbort)
+        resolve(value)
+      },
+      (error) => {
+        signal.removeEventListener("abort", onAbort)
+        reject(error)
+      },
+    )
+  })
+}
 
-    for (let z = 0; z <= maxZoom; z++) {
-      const config = this.tileConfigs[z]
-      const tilesPerSide = Math.ceil(config.size / config.tileSize)
-      totalTiles += 6 * tilesPerSide * tilesPerSide
+function sendToWorker(
+  worker: Worker,
+  message: FaceWorkerRequest,
+  onMessage: (response: FaceWorkerResponse, done: () => void) => void,
+): Promise<void> {
+  return new Promise((resolve, reject) => {
+    worker.onmessage = (event: MessageEvent<FaceWorkerResponse>) => {
+      if (event.data.type === "error") {
+        reject(new Error(event.data.message))
+      } else {
+        onMessage(event.data, resolve)
+      }
     }
+    worker.onerror = (event) => reject(new Error(event.message || "Worker failed"))
+    worker.postMessage(message)
+  })
+}
 
-    for (let z = 0; z <= maxZoom; z++) {
-      const config = this.tileConfigs[z]
-      const tilesPerSide = Math.ceil(config.size / config.tileSize)
-      const faceSize = config.size
+// Canvas encoders only cover lossy WebP, JPEG and PNG, and not every browser encodes WebP
+export function isBrowserTileEncodingSupported(format: TileFormat, lossless = false): boolean {
+  if (format === "avif" || (format === "webp" && lossless)) return false
+  if (typeof document === "undefined") return true
 
-      // Generate each cube face
-      for (let face = 0; face < 6; face++) {
-        const faceCanvas = this.generateCubeFace(img, face, faceSize)
-        const faceName = this.faceNames[face]
+  const canvas = document.createElement("canvas")
+  canvas.width = canvas.height = 1
+  return canvas.toDataURL(TILE_FORMAT_INFO[format].mimeType).startsWith(`data:${TILE_FORMAT_INFO[format].mimeType}`)
+}
 
-        // Split face into tiles
-        for (let y = 0; y < tilesPerSide; y++) {
-          for (let x = 0; x < tilesPerSide; x++) {
-            const tileCanvas = document.createElement("canvas")
-            tileCanvas.width = config.tileSize
-            tileCanvas.height = config.tileSize
-            const tileCtx = tileCanvas.getContext("2d")!
+// Environment cube maps need float faces and HDR/EXR/KTX2 writers at full precision, which only the server runs
+export function isBrowserOutputSupported(output: OutputMode): boolean {
+  return output !== "environment"
+}
 
-            tileCtx.imageSmoothingEnabled = false
+export class PanoramaConverter {
+  async convertToCubemap(
+    file: File,
+    onProgress?: (progress: number) => void,
+    options: ConversionOptions = {},
+    signal?: AbortSignal,
+    nadirLogo: File | null = null,
+  ): Promise<any> {
+    const parsed = conversionOptionsSchema.safeParse(options)
+    if (!parsed.success) {
+      throw new Error(`Invalid conversion options: ${formatOptionsError(parsed.error)}`)
+    }
 
-            const sourceX = x * config.tileSize
-            const sourceY = y * config.tileSize
-            const sourceWidth = Math.min(config.tileSize, faceSize - sourceX)
-            const sourceHeight = Math.min(config.tileSize, faceSize - sourceY)
+    if (parsed.data.output && !isBrowserOutputSupported(parsed.data.output)) {
+      throw new Error("Environment cubemaps are generated on the server. Use the Image URL tab instead.")
+    }
 
-            tileCtx.drawImage(faceCanvas, sourceX, sourceY, sourceWidth, sourceHeight, 0, 0, sourceWidth, sourceHeight)
+    if (parsed.data.nadirPatch === "logo" && !nadirLogo) {
+      throw new Error("Choose a logo image for the nadir patch")
+    }
 
-            const tileKey = `${z}/${faceName}/${y}/${x}`
-            tiles[tileKey] = tileCanvas.toDataURL("image/jpeg", 1.0)
+    const encoding = resolveTileEncoding(parsed.data)
+    if (!isBrowserTileEncodingSupported(encoding.format, encoding.lossless)) {
+      throw new Error(
+        `${encoding.lossless ? "Lossless " : ""}${TILE_FORMAT_INFO[encoding.format].label} tiles cannot be encoded ` +
+          "in this browser. Use the Image URL tab to convert on the server instead.",
+      )
+    }
 
-            processedTiles++
-            if (onProgress) {
-              onProgress((processedTiles / totalTiles) * 100)
-            }
-          }
+    const tiles: { [key: string]: Blob } = {}
+    const faces: RGBAImage[] = []
+    let processedTiles = 0
+    let totalTiles = 0
+    let tileConfigs: TileConfig[] = []
+
+    const job: ConversionJob = {
+      file,
+      options: parsed.data,
+      nadirLogo,
+      signal,
+      onLevels: (levels) => {
+        tileConfigs = levels
+        totalTiles = countTiles(levels)
+      },
+      onTile: (path, blob) => {
+        tiles[path] = blob
+        processedTiles++
+        if (onProgress) {
+          onProgress((processedTiles / totalTiles) * 100)
+        }
+      },
+      onFace: (face, image) => {
+        faces[face] = image
+        if (onProgress) {
+          onProgress((faces.filter(Boolean).length / 6) * 100)
         }
+      },
+    }
+
+    const source =
+      typeof Worker !== "undefined" && typeof OffscreenCanvas !== "undefined"
+        ? await this.convertInWorkers(job)
+        : await this.convertOnMainThread(job)
+
+    if (isCubemapJob(job)) {
+      const settings = resolveCubemapExport(source.width, parsed.data)
+      const config = createCubemapExportConfig(source, parsed.data)
+      const zipUrl = await withAbort(
+        this.createCubemapImagesZip(faces, settings, config, encoding, regionsRecord(parsed.data)),
+        signal,
+      )
+
+      return {
+        output: "cubemap",
+        zipUrl,
+        files: config.files,
+        faceSize: settings.faceSize,
+        layout: settings.layout,
+        preset: settings.preset,
+        encoding,
+        options: parsed.data,
       }
     }
 
     // Create zip file
-    const zipUrl = await this.createZipFile(tiles)
+    const config = createCubemapConfig(source, tileConfigs, parsed.data)
+    const zipUrl = await withAbort(
+      this.createZipFile(tiles, config, tileConfigs, encoding, parsed.data, marzipanoSceneName(file.name)),
+      signal,
+    )
 
     return {
       tiles,
       zipUrl,
       totalTiles,
-      zoomLevels,
-      maxZoom,
-      tileConfigs: this.tileConfigs,
+      zoomLevels: tileConfigs.length,
+      maxZoom: tileConfigs.length - 1,
+      tileConfigs,
+      encoding,
+      options: parsed.data,
     }
   }
 
-  private generateCubeFace(img: HTMLImageElement, face: number, size: number): HTMLCanvasElement {
-    const canvas = document.createElement("canvas")
-    canvas.width = size
-    canvas.height = size
-    const ctx = canvas.getContext("2d")!
+  // Decodes in the first worker to learn the source size, then spreads the six faces over the pool
+  private async convertInWorkers(job: ConversionJob): Promise<SourceInfo> {
+    const workers: Worker[] = []
+    const spawn = () => {
+      const worker = new Worker(new URL("../lib/panorama/face.worker.ts", import.meta.url))
+      workers.push(worker)
+      return worker
+    }
+    const load = async (worker: Worker) => {
+      let info: SourceInfo = { width: 0, height: 0 }
+      const request: FaceWorkerRequest = {
+        type: "load",
+        file: job.file,
+        options: job.options,
+        ...(job.nadirLogo && { nadirLogo: job.nadirLogo }),
+      }
+      await sendToWorker(worker, request, (response, done) => {
+        if (response.type === "loaded") {
+          info = {
+            width: response.width,
+            height: response.height,
+            hdrFormat: response.hdrFormat,
+            gpano: response.gpano,
+          }
+          done()
+        }
+      })
+      return info
+    }
+
+    try {
+      const first = spawn()
+      const source = await withAbort(load(first), job.signal)
+      const tileConfigs = computeTileConfigs(source.width, job.options)
+      const cubemapSize = outputFaceSize(source.width, job.options)
+      if (!isCubemapJob(job)) {
+        job.onLevels(tileConfigs)
+      }
 
-    ctx.imageSmoothingEnabled = false
+      const sourceBytes = source.width * source.height * 4
+      const poolSize = Math.max(
+        1,
+        Math.min(MAX_WORKERS, (navigator.hardwareConcurrency || 2) - 1, Math.floor(WORKER_MEMORY_BUDGET / sourceBytes)),
+      )
+
+      const faces = [0, 1, 2, 3, 4, 5]
+      const run = async (worker: Worker) => {
+        while (faces.length > 0) {
+          const face = faces.shift()!
+          const request: FaceWorkerRequest = isCubemapJob(job)
+            ? { type: "projectFace", face, size: cubemapSize, options: job.options }
+            : { type: "face", face, tileConfigs, options: job.options }
+          await sendToWorker(worker, request, (response, done) => {
+            if (response.type === "tile") {
+              job.onTile(response.path, response.blob)
+            } else if (response.type === "projectedFace") {
+              job.onFace(response.face, response.image)
+              done()
+            } else if (response.type === "faceDone") {
+              done()
+            }
+          })
+        }
+      }
 
-    const imgData = this.getImageData(img)
-    const faceData = ctx.createImageData(size, size)
+      const runners = [run(first)]
+      for (let i = 1; i < poolSize; i++) {
+        const worker = spawn()
+        runners.push(load(worker).then(() => run(worker)))
+      }
+      await withAbort(Promise.all(runners), job.signal)
 
-    // Convert equirectangular to cube face with bilinear interpolation
-    for (let y = 0; y < size; y++) {
-      for (let x = 0; x < size; x++) {
-        const [u, v] = this.faceUVToEquirectangular(face, x / size, y / size)
-        const pixel = this.sampleEquirectangularBilinear(imgData, u, v, img.width, img.height)
+      return source
+    } finally {
+      // Terminating releases each worker's copy of the source and any tile still in flight
+      workers.forEach((worker) => worker.terminate())
+    }
+  }
 
-        const idx = (y * size + x) * 4
-        faceData.data[idx] = pixel[0]
-        faceData.data[idx + 1] = pixel[1]
-        faceData.data[idx + 2] = pixel[2]
-        faceData.data[idx + 3] = 255
+  private async convertOnMainThread(job: ConversionJob): Promise<SourceInfo> {
+    const buffer = await withAbort(job.file.arrayBuffer(), job.signal)
+    const hdrFormat = detectHDRFormat(buffer)
+    const decoded = hdrFormat
+      ? decodeHDRSource(buffer, job.options)
+      : this.getImageData(await withAbort(this.loadImage(job.file), job.signal))
+    const { image: source, gpano } = applyGPano(decoded, buffer, job.options)
+    const nadirLogo = job.nadirLogo
+      ? this.getImageData(await withAbort(this.loadImage(job.nadirLogo), job.signal))
+      : null
+
+    if (isCubemapJob(job)) {
+      const size = outputFaceSize(source.width, job.options)
+      for (let face = 0; face < 6; face++) {
+        if (job.signal?.aborted) {
+          throw abortError()
+        }
+        job.onFace(face, patchNadir(generateCubeFace(source, face, size, job.options), face, job.options, nadirLogo))
+        // Let the progress bar repaint between faces
+        await new Promise((resolve) => setTimeout(resolve, 0))
       }
+      return { width: source.width, height: source.height, hdrFormat, gpano }
     }
 
-    ctx.putImageData(faceData, 0, 0)
-    return canvas
+    const tileConfigs = computeTileConfigs(source.width, job.options)
+    job.onLevels(tileConfigs)
+
+    const encoding = resolveTileEncoding(job.options)
+    await generateCubemapTiles(source, tileConfigs, job.options, nadirLogo, async (tile) => {
+      if (job.signal?.aborted) {
+        throw abortError()
+      }
+      job.onTile(tilePath(tile), await this.encodeTile(tile.image, encoding))
+    })
+
+    return { width: source.width, height: source.height, hdrFormat, gpano }
   }
 
-  private getImageData(img: HTMLImageElement): ImageData {
+  private loadImage(file: Blob): Promise<HTMLImageElement> {
+    return new Promise((resolve, reject) => {
+      const img = new Image()
+      const url = URL.createObjectURL(file)
+
+      img.onload = () => {
+        URL.revokeObjectURL(url)
+        resolve(img)
+      }
+      img.onerror = () => {
+        URL.revokeObjectURL(url)
+        reject(new Error("Failed to load image"))
+      }
+      img.src = url
+    })
+  }
+
+  private getImageData(img: HTMLImageElement): RGBAImage {
     const canvas = document.createElement("canvas")
     canvas.width = img.width
     canvas.height = img.height
     const ctx = canvas.getContext("2d")!
-    ctx.imageSmoothingEnabled = false
     ctx.drawImage(img, 0, 0)
-    return ctx.getImageData(0, 0, img.width, img.height)
+    const imageData = ctx.getImageData(0, 0, img.width, img.height)
+    return { width: imageData.width, height: imageData.height, data: imageData.data }
   }
 
-  private faceUVToEquirectangular(face: number, u: number, v: number): [number, number] {
-    // Convert cube face UV to 3D direction
-    let x: number, y: number, z: number
-
-    // Map UV to [-1, 1] range
-    const uc = 2 * u - 1
-    const vc = 2 * v - 1
-
-    switch (face) {
-      case 0: // Right (+X)
-        x = 1
-        y = -vc
-        z = -uc
-        break
-      case 1: // Left (-X)
-        x = -1
-        y = -vc
-        z = uc
-        break
-      case 2: // Up (+Y)
-        x = uc
-        y = 1
-        z = vc
-        break
-      case 3: // Down (-Y)
-        x = uc
-        y = -1
-        z = -vc
-        break
-      case 4: // Front (+Z)
-        x = uc
-        y = -vc
-        z = 1
-        break
-      case 5: // Back (-Z)
-        x = -uc
-        y = -vc
-        z = -1
-        break
-      default:
-        x = y = z = 0
-    }
-
-    // Convert 3D direction to equirectangular coordinates
-    const theta = Math.atan2(z, x)
-    const phi = Math.acos(y / Math.sqrt(x * x + y * y + z * z))
-
-    const eqU = (theta + Math.PI) / (2 * Math.PI)
-    const eqV = phi / Math.PI
+  private encodeTile(image: RGBAImage, encoding: TileEncoding): Promise<Blob> {
+    const tileCanvas = document.createElement("canvas")
+    tileCanvas.width = image.width
+    tileCanvas.height = image.height
+    const tileCtx = tileCanvas.getContext("2d")!
+    tileCtx.putImageData(new ImageData(image.data, image.width, image.height), 0, 0)
 
-    return [eqU, eqV]
+    return new Promise((resolve, reject) => {
+      tileCanvas.toBlob(
+        (blob) => (blob ? resolve(blob) : reject(new Error("Failed to encode tile"))),
+        encoding.mimeType,
+        encoding.quality,
+      )
+    })
   }
 
-  private sampleEquirectangularBilinear(
-    imgData: ImageData,
-    u: number,
-    v: number,
-    width: number,
-    height: number,
-  ): [number, number, number] {
-    // Clamp coordinates to valid range
-    u = Math.max(0, Math.min(1, u))
-    v = Math.max(0, Math.min(1, v))
-
-    const x = u * (width - 1)
-    const y = v * (height - 1)
-
-    const x1 = Math.floor(x)
-    const y1 = Math.floor(y)
-    const x2 = Math.min(x1 + 1, width - 1)
-    const y2 = Math.min(y1 + 1, height - 1)
-
-    const fx = x - x1
-    const fy = y - y1
-
-    // Get four corner pixels
-    const getPixel = (px: number, py: number): [number, number, number] => {
-      const idx = (py * width + px) * 4
-      return [imgData.data[idx], imgData.data[idx + 1], imgData.data[idx + 2]]
-    }
-
-    const p11 = getPixel(x1, y1)
-    const p21 = getPixel(x2, y1)
-    const p12 = getPixel(x1, y2)
-    const p22 = getPixel(x2, y2)
+  private async createZipFile(
+    tiles: { [key: string]: Blob },
+    config: object,
+    tileConfigs: TileConfig[],
+    encoding: TileEncoding,
+    options: ConversionOptions,
+    sceneName: string,
+  ): Promise<string> {
+    const zip = new JSZip()
 
-    // Bilinear interpolation
-    const interpolate = (c1: number, c2: number, c3: number, c4: number): number => {
-      const i1 = c1 * (1 - fx) + c2 * fx
-      const i2 = c3 * (1 - fx) + c4 * fx
-      return i1 * (1 - fy) + i2 * fy
+    // Add each tile as a separate image file, keyed by Marzipano path and written in the target's layout
+    for (const [path, blob] of Object.entries(tiles)) {
+      zip.file(`${tileFilePath(parseTilePath(path), tileConfigs, options)}.${encoding.extension}`, blob)
     }
 
-    return [
-      Math.round(interpolate(p11[0], p21[0], p12[0], p22[0])),
-      Math.round(interpolate(p11[1], p21[1], p12[1], p22[1])),
-      Math.round(interpolate(p11[2], p21[2], p12[2], p22[2])),
-    ]
-  }
+    // Add configuration file
+    zip.file("config.json", JSON.stringify(config, null, 2))
+    if (options.tileTarget === "krpano") {
+      zip.file(KRPANO_TOUR_FILE, createKrpanoTourXml(tileConfigs, encoding))
+    }
+    const regions = regionsRecord(options)
+    if (regions) {
+      zip.file(REGIONS_FILE, JSON.stringify(regions, null, 2))
+    }
+    if (hasMarzipanoProject(options)) {
+      await this.addMarzipanoProject(zip, tiles, tileConfigs, encoding, options, sceneName)
+    }
 
-  private sampleEquirectangular(
-    imgData: ImageData,
-    u: number,
-    v: number,
-    width: number,
-    height: number,
-  ): [number, number, number] {
-    const x = Math.floor(u * width) % width
-    const y = Math.floor(v * height) % height
-    const idx = (y * width + x) * 4
-
-    return [imgData.data[idx], imgData.data[idx + 1], imgData.data[idx + 2]]
+    // Generate ZIP file
+    const zipBlob = await zip.generateAsync({ type: "blob" })
+    return URL.createObjectURL(zipBlob)
   }
 
-  private async createZipFile(tiles: { [key: string]: string }): Promise<string> {
-    const zip = new JSZip()
-
-    // Add each tile as a separate image file
-    for (const [tilePath, dataUrl] of Object.entries(tiles)) {
-      // Convert data URL to binary data
-      const base64Data = dataUrl.split(",")[1]
-      const binaryData = atob(base64Data)
-      const bytes = new Uint8Array(binaryData.length)
+  // data.js, index.html and the viewer script, plus the preview strip decoded back from the fallback tiles
+  private async addMarzipanoProject(
+    zip: JSZip,
+    tiles: { [key: string]: Blob },
+    tileConfigs: TileConfig[],
+    encoding: TileEncoding,
+    options: ConversionOptions,
+    sceneName: string,
+  ): Promise<void> {
+    const data = createMarzipanoData(tileConfigs, sceneName, options)
+    zip.file(MARZIPANO_DATA_FILE, marzipanoDataScript(data))
+    zip.file(MARZIPANO_INDEX_FILE, createMarzipanoIndexHtml(data, tileConfigs, encoding))
+
+    const script = await fetch(MARZIPANO_SCRIPT_URL)
+    if (!script.ok) {
+      throw new Error(`Failed to load the Marzipano viewer script: ${script.status} ${script.statusText}`)
+    }
+    zip.file(MARZIPANO_SCRIPT_FILE, await script.text())
 
-      for (let i = 0; i < binaryData.length; i++) {
-        bytes[i] = binaryData.charCodeAt(i)
+    if (hasMarzipanoPreview(tileConfigs)) {
+      const faces: Partial<Record<FaceName, RGBAImage>> = {}
+      for (const face of FACE_NAMES) {
+        faces[face] = this.getImageData(await this.loadImage(tiles[tilePath({ z: 0, face, y: 0, x: 0 })]))
       }
-
-      // Add file to ZIP with proper path structure
-      zip.file(`${tilePath}.jpg`, bytes)
+      zip.file(MARZIPANO_PREVIEW_FILE, await this.encodeTile(createMarzipanoPreview(faces), MARZIPANO_PREVIEW_ENCODING))
     }
+  }
 
-    // Add configuration file
-    const config = {
-      format: "marzipano-cubemap",
-      tileStructure: "{z}/{f}/{y}/{x}.jpg (where f = r,l,u,d,f,b)",
-      faceMapping: {
-        r: "right (+X)",
-        l: "left (-X)",
-        u: "up (+Y)",
-        d: "down (-Y)",
-        f: "front (+Z)",
-        b: "back (-Z)",
-      },
-      tileConfigs: this.tileConfigs,
-      description: "Marzipano cubemap tiles generated from panoramic image with maximum quality preservation",
+  private async createCubemapImagesZip(
+    faces: RGBAImage[],
+    settings: CubemapExportSettings,
+    config: object,
+    encoding: TileEncoding,
+    regions?: object,
+  ): Promise<string> {
+    const zip = new JSZip()
+    for (const { name, image } of composeCubemapExport(faces, settings)) {
+      zip.file(`${name}.${encoding.extension}`, await this.encodeTile(image, encoding))
     }
-
     zip.file("config.json", JSON.stringify(config, null, 2))
+    if (regions) {
+      zip.file(REGIONS_FILE, JSON.stringify(regions, null, 2))
+    }
 
-    // Generate ZIP file
     const zipBlob = await zip.generateAsync({ type: "blob" })
     return URL.createObjectURL(zipBlob)
   }
@@ -0,0 +1,492 @@
+"use client"
+
+import type React from "react"
+
+import { useEffect, useRef, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Slider } from "@/components/ui/slider"
+import { Circle, Move, Pentagon, Trash2 } from "lucide-react"
+import {
+  DEFAULT_REGION_COLOR,
+  DEFAULT_REGION_STRENGTH,
+  REGION_EFFECTS,
+  type ConversionOptions,
+  type MaskRegion,
+  type RegionEffect,
+  type RegionShape,
+  type SphericalPoint,
+} from "@/lib/panorama/options"
+import { decodePreview, imageToCanvas } from "@/lib/panorama/preview"
+import type { RGBAImage } from "@/lib/panorama/projection"
+import {
+  directionToPoint,
+  equirectangularToPoint,
+  gnomonicProject,
+  gnomonicUnproject,
+  pointToDirection,
+  pointToEquirectangular,
+  regionOutline,
+  tangentFrame,
+} from "@/lib/panorama/regions"
+
+interface RegionMaskEditorProps {
+  file: File
+  value: ConversionOptions
+  onChange: (value: ConversionOptions) => void
+  disabled?: boolean
+}
+
+type EditorView = "equirectangular" | "perspective"
+type Tool = "move" | RegionShape
+
+type RegionGeometry =
+  | { shape: "polygon"; points: SphericalPoint[] }
+  | { shape: "ellipse"; center: SphericalPoint; radiusX: number; radiusY: number }
+
+interface Camera {
+  yaw: number
+  pitch: number
+  fov: number
+}
+
+const PERSPECTIVE_WIDTH = 640
+const PERSPECTIVE_HEIGHT = 360
+// Clicking this close (in canvas pixels) to the first vertex closes the polygon
+const CLOSE_DISTANCE = 10
+const MIN_ELLIPSE_RADIUS = 0.5
+
+const REGION_EFFECT_LABELS: Record<RegionEffect, string> = {
+  blur: "Blur",
+  pixelate: "Pixelate",
+  fill: "Fill",
+}
+
+const REGION_SHAPE_LABELS: Record<RegionShape, string> = {
+  polygon: "Polygon",
+  ellipse: "Ellipse",
+}
+
+// Canvas pixel <-> sphere mapping for one view; toScreen is null for points behind the perspective camera
+interface ViewMapping {
+  width: number
+  height: number
+  toScreen: (point: SphericalPoint) => [number, number] | null
+  fromScreen: (x: number, y: number) => SphericalPoint
+}
+
+function equirectangularMapping(width: number, height: number): ViewMapping {
+  return {
+    width,
+    height,
+    toScreen: (point) => {
+      const [u, v] = pointToEquirectangular(point)
+      return [u * width, v * height]
+    },
+    fromScreen: (x, y) => equirectangularToPoint(x / width, y / height),
+  }
+}
+
+// A rectilinear view is the gnomonic projection around the camera's direction
+function perspectiveMapping(camera: Camera): ViewMapping {
+  const frame = tangentFrame(camera)
+  const halfWidth = Math.tan((camera.fov / 2) * (Math.PI / 180))
+  const halfHeight = (halfWidth * PERSPECTIVE_HEIGHT) / PERSPECTIVE_WIDTH
+  return {
+    width: PERSPECTIVE_WIDTH,
+    height: PERSPECTIVE_HEIGHT,
+    toScreen: (point) => {
+      const position = gnomonicProject(frame, pointToDirection(point))
+      if (!position) return null
+      return [
+        ((position[0] / halfWidth + 1) / 2) * PERSPECTIVE_WIDTH,
+        ((1 - position[1] / halfHeight) / 2) * PERSPECTIVE_HEIGHT,
+      ]
+    },
+    fromScreen: (x, y) =>
+      directionToPoint(
+        gnomonicUnproject(
+          frame,
+          ((2 * x) / PERSPECTIVE_WIDTH - 1) * halfWidth,
+          (1 - (2 * y) / PERSPECTIVE_HEIGHT) * halfHeight,
+        ),
+      ),
+  }
+}
+
+function renderPerspective(preview: RGBAImage, mapping: ViewMapping): ImageData {
+  const image = new ImageData(mapping.width, mapping.height)
+  for (let y = 0; y < mapping.height; y++) {
+    for (let x = 0; x < mapping.width; x++) {
+      const [u, v] = pointToEquirectangular(mapping.fromScreen(x + 0.5, y + 0.5))
+      const px = Math.min(preview.width - 1, Math.floor(u * preview.width))
+      const py = Math.min(preview.height - 1, Math.floor(v * preview.height))
+      const from = (py * preview.width + px) * 4
+      image.data.set(preview.data.subarray(from, from + 4), (y * mapping.width + x) * 4)
+    }
+  }
+  return image
+}
+
+// Screen polylines of a closed outline, broken where it wraps around the seam or goes behind the camera
+function outlineSegments(outline: SphericalPoint[], mapping: ViewMapping): [number, number][][] {
+  const segments: [number, number][][] = [[]]
+  for (const point of [...outline, outline[0]]) {
+    const screen = mapping.toScreen(point)
+    const current = segments[segments.length - 1]
+    const previous = current[current.length - 1]
+    if (!screen || (previous && Math.abs(screen[0] - previous[0]) > mapping.width / 2)) {
+      if (current.length > 0) segments.push([])
+      if (!screen) continue
+    }
+    segments[segments.length - 1].push(screen)
+  }
+  return segments.filter((segment) => segment.length > 1)
+}
+
+function drawOutline(ctx: CanvasRenderingContext2D, outline: SphericalPoint[], mapping: ViewMapping) {
+  const segments = outlineSegments(outline, mapping)
+  for (const segment of segments) {
+    ctx.beginPath()
+    segment.forEach(([x, y], i) => (i === 0 ? ctx.moveTo(x, y) : ctx.lineTo(x, y)))
+    // A region split by the seam or the camera cannot be filled as one shape
+    if (segments.length === 1) {
+      ctx.closePath()
+      ctx.fill()
+    }
+    ctx.stroke()
+  }
+}
+
+function describeRegion(region: MaskRegion): string {
+  const shape =
+    region.shape === "polygon"
+      ? `${REGION_SHAPE_LABELS.polygon} (${region.points.length} points)`
+      : `${REGION_SHAPE_LABELS.ellipse} (${region.radiusX.toFixed(1)}° × ${region.radiusY.toFixed(1)}°)`
+  const effect =
+    region.effect === "fill"
+      ? `${REGION_EFFECT_LABELS.fill} ${region.color ?? DEFAULT_REGION_COLOR}`
+      : `${REGION_EFFECT_LABELS[region.effect]} ${region.strength ?? DEFAULT_REGION_STRENGTH}°`
+  return `${shape}: ${effect}`
+}
+
+// Draw polygons and ellipses over faces, plates and house numbers, either on the whole panorama or in a
+// rectilinear view where they are not distorted. They are redacted while the faces are projected.
+export function RegionMaskEditor({ file, value, onChange, disabled }: RegionMaskEditorProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+  const [preview, setPreview] = useState<RGBAImage | null>(null)
+  const [previewCanvas, setPreviewCanvas] = useState<HTMLCanvasElement | null>(null)
+  const [view, setView] = useState<EditorView>("equirectangular")
+  const [tool, setTool] = useState<Tool>("polygon")
+  const [effect, setEffect] = useState<RegionEffect>("blur")
+  const [strength, setStrength] = useState(DEFAULT_REGION_STRENGTH)
+  const [color, setColor] = useState(DEFAULT_REGION_COLOR)
+  const [camera, setCamera] = useState<Camera>({ yaw: 0, pitch: 0, fov: 90 })
+  const [draft, setDraft] = useState<SphericalPoint[]>([])
+  const [ellipse, setEllipse] = useState<{ center: SphericalPoint; radiusX: number; radiusY: number } | null>(null)
+  const dragRef = useRef<{ x: number; y: number; camera: Camera } | null>(null)
+
+  const regions = value.regions ?? []
+  const mapping =
+    view === "perspective"
+      ? perspectiveMapping(camera)
+      : equirectangularMapping(preview?.width ?? 2, preview?.height ?? 1)
+
+  const { applyGPano, alignGPanoHeading, cropFill, cropFillColor } = value
+  useEffect(() => {
+    let cancelled = false
+    setPreview(null)
+    decodePreview(file, { applyGPano, alignGPanoHeading, cropFill, cropFillColor })
+      .then((image) => {
+        if (cancelled) return
+        setPreview(image)
+        setPreviewCanvas(imageToCanvas(image))
+      })
+      .catch((error) => console.error("[v0] Region preview failed:", error))
+    return () => {
+      cancelled = true
+    }
+  }, [file, applyGPano, alignGPanoHeading, cropFill, cropFillColor])
+
+  // Depends on value.regions rather than the `regions` fallback, which is a new array on every render
+  useEffect(() => {
+    const canvas = canvasRef.current
+    if (!canvas || !preview || !previewCanvas) return
+    canvas.width = mapping.width
+    canvas.height = mapping.height
+    const ctx = canvas.getContext("2d")!
+    if (view === "perspective") {
+      ctx.putImageData(renderPerspective(preview, mapping), 0, 0)
+    } else {
+      ctx.drawImage(previewCanvas, 0, 0)
+    }
+
+    ctx.lineWidth = 2
+    ctx.strokeStyle = "#ef4444"
+    ctx.fillStyle = "rgba(239, 68, 68, 0.3)"
+    regions.forEach((region) => drawOutline(ctx, regionOutline(region), mapping))
+
+    ctx.strokeStyle = "#facc15"
+    ctx.fillStyle = "rgba(250, 204, 21, 0.3)"
+    if (ellipse) {
+      drawOutline(ctx, regionOutline({ shape: "ellipse", ...ellipse, effect }), mapping)
+    }
+    const draftPoints = draft.map((point) => mapping.toScreen(point))
+    ctx.beginPath()
+    draftPoints.forEach((screen, i) => {
+      if (!screen) return
+      ctx.fillRect(screen[0] - 3, screen[1] - 3, 6, 6)
+      if (i === 0 || !draftPoints[i - 1]) ctx.moveTo(screen[0], screen[1])
+      else ctx.lineTo(screen[0], screen[1])
+    })
+    ctx.stroke()
+  }, [preview, previewCanvas, view, camera, value.regions, draft, ellipse, effect])
+
+  const setRegions = (next: MaskRegion[]) => {
+    onChange({ ...value, regions: next.length > 0 ? next : undefined })
+  }
+
+  const addRegion = (geometry: RegionGeometry) => {
+    const region = {
+      ...geometry,
+      effect,
+      ...(effect === "fill" ? { color } : { strength }),
+    } as MaskRegion
+    setRegions([...regions, region])
+  }
+
+  const finishPolygon = (points: SphericalPoint[]) => {
+    // A double-click lands the same point twice
+    const distinct = points.filter(
+      (point, i) =>
+        i === 0 ||
+        Math.abs(point.yaw - points[i - 1].yaw) > 1e-3 ||
+        Math.abs(point.pitch - points[i - 1].pitch) > 1e-3,
+    )
+    if (distinct.length >= 3) {
+      addRegion({ shape: "polygon", points: distinct })
+    }
+    setDraft([])
+  }
+
+  const canvasPosition = (event: React.MouseEvent<HTMLCanvasElement>): [number, number] => {
+    const rect = event.currentTarget.getBoundingClientRect()
+    return [
+      ((event.clientX - rect.left) / rect.width) * mapping.width,
+      ((event.clientY - rect.top) / rect.height) * mapping.height,
+    ]
+  }
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    if (disabled) return
+    const [x, y] = canvasPosition(event)
+    const point = mapping.fromScreen(x, y)
+
+    if (tool === "move") {
+      event.currentTarget.setPointerCapture(event.pointerId)
+      dragRef.current = { x, y, camera }
+    } else if (tool === "ellipse") {
+      event.currentTarget.setPointerCapture(event.pointerId)
+      setEllipse({ center: point, radiusX: 0, radiusY: 0 })
+    } else {
+      const first = draft.length >= 3 ? mapping.toScreen(draft[0]) : null
+      if (first && Math.hypot(first[0] - x, first[1] - y) < CLOSE_DISTANCE) {
+        finishPolygon(draft)
+      } else {
+        setDraft([...draft, point])
+      }
+    }
+  }
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const [x, y] = canvasPosition(event)
+    const drag = dragRef.current
+    if (drag) {
+      // Dragging moves the picture with the pointer
+      const degreesPerPixel = drag.camera.fov / mapping.width
+      setCamera({
+        ...drag.camera,
+        yaw: ((drag.camera.yaw - (x - drag.x) * degreesPerPixel + 540) % 360) - 180,
+        pitch: Math.max(-85, Math.min(85, drag.camera.pitch + (y - drag.y) * degreesPerPixel)),
+      })
+    } else if (ellipse) {
+      const position = gnomonicProject(tangentFrame(ellipse.center), pointToDirection(mapping.fromScreen(x, y)))
+      if (!position) return
+      const toRadius = (t: number) => Math.min(80, (Math.atan(Math.abs(t)) * 180) / Math.PI)
+      setEllipse({ ...ellipse, radiusX: toRadius(position[0]), radiusY: toRadius(position[1]) })
+    }
+  }
+
+  const handlePointerUp = () => {
+    dragRef.current = null
+    if (ellipse && ellipse.radiusX >= MIN_ELLIPSE_RADIUS && ellipse.radiusY >= MIN_ELLIPSE_RADIUS) {
+      addRegion({ shape: "ellipse", center: ellipse.center, radiusX: ellipse.radiusX, radiusY: ellipse.radiusY })
+    }
+    setEllipse(null)
+  }
+
+  const handleViewChange = (next: EditorView) => {
+    setView(next)
+    setDraft([])
+    if (next === "equirectangular" && tool === "move") {
+      setTool("polygon")
+    }
+  }
+
+  const tools: { tool: Tool; label: string; icon: React.ReactNode }[] = [
+    ...(view === "perspective" ? [{ tool: "move" as const, label: "Look", icon: <Move className="w-4 h-4" /> }] : []),
+    { tool: "polygon", label: REGION_SHAPE_LABELS.polygon, icon: <Pentagon className="w-4 h-4" /> },
+    { tool: "ellipse", label: REGION_SHAPE_LABELS.ellipse, icon: <Circle className="w-4 h-4" /> },
+  ]
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <Label>Privacy Regions</Label>
+        <div className="flex gap-1">
+          {(["equirectangular", "perspective"] as const).map((option) => (
+            <Button
+              key={option}
+              size="sm"
+              variant={view === option ? "default" : "outline"}
+              onClick={() => handleViewChange(option)}
+            >
+              {option === "equirectangular" ? "Panorama" : "Rectilinear"}
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-1">
+        {tools.map(({ tool: option, label, icon }) => (
+          <Button
+            key={option}
+            size="sm"
+            variant={tool === option ? "default" : "outline"}
+            onClick={() => {
+              setTool(option)
+              setDraft([])
+            }}
+            disabled={disabled}
+          >
+            {icon}
+            <span className="ml-1">{label}</span>
+          </Button>
+        ))}
+        {draft.length > 0 && (
+          <>
+            <Button size="sm" variant="outline" onClick={() => finishPolygon(draft)} disabled={draft.length < 3}>
+              Finish
+            </Button>
+            <Button size="sm" variant="ghost" onClick={() => setDraft([])}>
+              Cancel
+            </Button>
+          </>
+        )}
+      </div>
+
+      {preview ? (
+        <canvas
+          ref={canvasRef}
+          className={`w-full rounded-lg border touch-none ${tool === "move" ? "cursor-grab" : "cursor-crosshair"}`}
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={handlePointerUp}
+          onDoubleClick={() => tool === "polygon" && finishPolygon(draft)}
+        />
+      ) : (
+        <div className="aspect-[2/1] w-full rounded-lg border bg-gray-100 animate-pulse" />
+      )}
+
+      {view === "perspective" && (
+        <div className="space-y-2">
+          <Label>Field of View: {camera.fov}°</Label>
+          <Slider
+            min={20}
+            max={120}
+            step={1}
+            value={[camera.fov]}
+            onValueChange={([fov]) => setCamera({ ...camera, fov })}
+          />
+        </div>
+      )}
+
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label>Effect for New Regions</Label>
+          <Select value={effect} onValueChange={(next) => setEffect(next as RegionEffect)} disabled={disabled}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {REGION_EFFECTS.map((option) => (
+                <SelectItem key={option} value={option}>
+                  {REGION_EFFECT_LABELS[option]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        {effect === "fill" ? (
+          <div className="space-y-2">
+            <Label htmlFor="regionColor">Fill Colour</Label>
+            <Input
+              id="regionColor"
+              type="color"
+              value={color}
+              onChange={(e) => setColor(e.target.value)}
+              disabled={disabled}
+            />
+          </div>
+        ) : (
+          <div className="space-y-2">
+            <Label>
+              {effect === "blur" ? "Blur Radius" : "Cell Size"}: {strength}°
+            </Label>
+            <Slider
+              className="py-3"
+              min={0.5}
+              max={10}
+              step={0.5}
+              value={[strength]}
+              onValueChange={([next]) => setStrength(next)}
+              disabled={disabled}
+            />
+          </div>
+        )}
+      </div>
+
+      {regions.length > 0 && (
+        <div className="space-y-1">
+          {regions.map((region, index) => (
+            <div key={index} className="flex items-center justify-between rounded border px-2 py-1 text-sm">
+              <span>
+                {index + 1}. {describeRegion(region)}
+              </span>
+              <Button
+                size="sm"
+                variant="ghost"
+                onClick={() => setRegions(regions.filter((_, i) => i !== index))}
+                disabled={disabled}
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </div>
+          ))}
+          <Button size="sm" variant="outline" onClick={() => setRegions([])} disabled={disabled}>
+            Clear all regions
+          </Button>
+        </div>
+      )}
+
+      <p className="text-xs text-gray-500">
+        Click to place polygon corners and click the first corner (or double-click) to close it; drag to draw an
+        ellipse. The rectilinear view shows a region without the panorama&apos;s stretching. Regions are redacted
+        on every face and zoom level, and listed in regions.json in the download.
+      </p>
+    </div>
+  )
+}
@@ -0,0 +1,358 @@
+"use client"
+
+import type React from "react"
+
+import { useRef, useState } from "react"
+import JSZip from "jszip"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Download, Globe, Grid3x3, Loader2, Upload } from "lucide-react"
+import { CUBE_PROJECTION_LABELS } from "@/components/conversion-settings"
+import { isBrowserTileEncodingSupported } from "@/components/panorama-converter"
+import { cubeFacesToEquirectangular, defaultEquirectangularWidth } from "@/lib/panorama/equirectangular"
+import { TILE_FORMAT_INFO, resolveTileEncoding } from "@/lib/panorama/formats"
+import { CUBE_LAYOUT_GEOMETRY, detectCubeLayout, extractLayoutFaces } from "@/lib/panorama/layouts"
+import {
+  CUBE_LAYOUTS,
+  CUBE_PROJECTIONS,
+  DEFAULT_CUBE_PROJECTION,
+  DEFAULT_TILE_FORMAT,
+  TILE_FORMATS,
+  formatOptionsError,
+  reverseOptionsSchema,
+  type CubeLayout,
+  type CubeProjection,
+  type ReverseOptions,
+  type TileFormat,
+} from "@/lib/panorama/options"
+import type { RGBAImage } from "@/lib/panorama/projection"
+import { reassembleTileSet, type ReassembledTileSet } from "@/lib/panorama/reassemble"
+
+interface ReverseResult {
+  url: string
+  blob: Blob
+  // Set for single-image layouts; ZIP input reports the rebuilt tile set instead
+  layout?: CubeLayout
+  tileSet?: Omit<ReassembledTileSet, "faces">
+  faceSize: number
+  width: number
+  height: number
+  extension: string
+}
+
+interface ReverseConverterProps {
+  // Hands the equirectangular result to the tiling converter, e.g. to re-tile an old set with new settings
+  onRetile?: (file: File) => void
+}
+
+const MAX_LISTED_MISSING_TILES = 10
+
+function isZipFile(file: File): boolean {
+  return file.type === "application/zip" || file.type === "application/x-zip-compressed" || /\.zip$/i.test(file.name)
+}
+
+async function decodeImageFile(file: Blob): Promise<RGBAImage> {
+  const bitmap = await createImageBitmap(file)
+  const canvas = document.createElement("canvas")
+  canvas.width = bitmap.width
+  canvas.height = bitmap.height
+  const ctx = canvas.getContext("2d")!
+  ctx.drawImage(bitmap, 0, 0)
+  bitmap.close()
+  const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height)
+  return { width: imageData.width, height: imageData.height, data: imageData.data }
+}
+
+function encodeImage(image: RGBAImage, mimeType: string, quality?: number): Promise<Blob> {
+  const canvas = document.createElement("canvas")
+  canvas.width = image.width
+  canvas.height = image.height
+  canvas.getContext("2d")!.putImageData(new ImageData(image.data, image.width, image.height), 0, 0)
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error("Failed to encode image"))), mimeType, quality)
+  })
+}
+
+async function loadTileZip(file: File): Promise<ReassembledTileSet> {
+  const zip = await JSZip.loadAsync(file)
+  const entries = Object.values(zip.files)
+    .filter((entry) => !entry.dir)
+    .map((entry) => ({ path: entry.name, decode: async () => decodeImageFile(await entry.async("blob")) }))
+  return reassembleTileSet(entries, (path) => zip.file(path)!.async("string"))
+}
+
+export function ReverseConverter({ onRetile }: ReverseConverterProps) {
+  const [selectedFile, setSelectedFile] = useState<File | null>(null)
+  const [options, setOptions] = useState<ReverseOptions>({})
+  const [isConverting, setIsConverting] = useState(false)
+  const [result, setResult] = useState<ReverseResult | null>(null)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  const validation = reverseOptionsSchema.safeParse(options)
+
+  const update = (patch: Partial<ReverseOptions>) => {
+    setOptions({ ...options, ...patch })
+  }
+
+  const releaseResult = () => {
+    if (result) {
+      URL.revokeObjectURL(result.url)
+    }
+    setResult(null)
+  }
+
+  const handleFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    if (file && (file.type.startsWith("image/") || isZipFile(file))) {
+      setSelectedFile(file)
+      releaseResult()
+    }
+  }
+
+  const handleConvert = async () => {
+    if (!selectedFile || !validation.success) return
+
+    releaseResult()
+    setIsConverting(true)
+
+    try {
+      let faces: RGBAImage[]
+      let projection = validation.data.cubeProjection ?? DEFAULT_CUBE_PROJECTION
+      let layout: CubeLayout | undefined
+      let tileSet: Omit<ReassembledTileSet, "faces"> | undefined
+
+      if (isZipFile(selectedFile)) {
+        const { faces: tileFaces, ...reassembled } = await loadTileZip(selectedFile)
+        faces = tileFaces
+        tileSet = reassembled
+        projection = reassembled.projection
+      } else {
+        const source = await decodeImageFile(selectedFile)
+        layout = validation.data.layout ?? detectCubeLayout(source.width, source.height) ?? undefined
+        if (!layout) {
+          throw new Error(
+            `Cannot detect the cubemap layout of a ${source.width}x${source.height} image. ` +
+              "Expected a 4:3 or 3:4 cross, a 6:1 strip or a 3:2 grid; choose the layout explicitly to override.",
+          )
+        }
+        faces = extractLayoutFaces(source, layout)
+      }
+
+      const width = validation.data.outputWidth ?? defaultEquirectangularWidth(faces[0].width)
+      const equirectangular = cubeFacesToEquirectangular(faces, width, projection)
+
+      const encoding = resolveTileEncoding({
+        tileFormat: validation.data.outputFormat,
+        quality: validation.data.quality,
+      })
+      const blob = await encodeImage(equirectangular, encoding.mimeType, encoding.quality)
+
+      setResult({
+        url: URL.createObjectURL(blob),
+        blob,
+        layout,
+        tileSet,
+        faceSize: faces[0].width,
+        width: equirectangular.width,
+        height: equirectangular.height,
+        extension: encoding.extension,
+      })
+    } catch (error) {
+      console.error("Reverse conversion failed:", error)
+      alert(error instanceof Error ? error.message : "Conversion failed")
+    } finally {
+      setIsConverting(false)
+    }
+  }
+
+  const handleDownload = () => {
+    if (!result) return
+
+    const link = document.createElement("a")
+    link.href = result.url
+    link.download = `equirectangular.${result.extension}`
+    link.click()
+  }
+
+  const handleRetile = () => {
+    if (!result || !onRetile) return
+
+    onRetile(new File([result.blob], `equirectangular.${result.extension}`, { type: result.blob.type }))
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Globe className="w-5 h-5" />
+          Cubemap to Equirectangular
+        </CardTitle>
+        <CardDescription>
+          Convert a horizontal or vertical cross, a 6×1 strip, a YouTube 3×2 grid or a Marzipano tile ZIP back to an
+          equirectangular panorama
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="border-2 border-dashed border-gray-300 rounded-lg p-8 text-center">
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="image/*,.zip"
+            onChange={handleFileSelect}
+            className="hidden"
+          />
+          {selectedFile ? (
+            <div className="space-y-2">
+              <div className="text-sm text-gray-600">Selected file:</div>
+              <div className="font-medium">{selectedFile.name}</div>
+              <div className="text-sm text-gray-500">{(selectedFile.size / 1024 / 1024).toFixed(2)} MB</div>
+            </div>
+          ) : (
+            <div className="space-y-2">
+              <Upload className="w-12 h-12 text-gray-400 mx-auto" />
+              <div className="text-gray-600">Click to select a cubemap image or tile ZIP</div>
+            </div>
+          )}
+          <Button onClick={() => fileInputRef.current?.click()} variant="outline" className="mt-4">
+            {selectedFile ? "Change File" : "Select File"}
+          </Button>
+        </div>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label>Layout</Label>
+            <Select
+              value={options.layout ?? "auto"}
+              onValueChange={(layout) => update({ layout: layout === "auto" ? undefined : (layout as CubeLayout) })}
+              disabled={isConverting || (selectedFile !== null && isZipFile(selectedFile))}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="auto">Detect from aspect ratio</SelectItem>
+                {CUBE_LAYOUTS.map((layout) => (
+                  <SelectItem key={layout} value={layout}>
+                    {CUBE_LAYOUT_GEOMETRY[layout].label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Face Projection</Label>
+            <Select
+              value={options.cubeProjection ?? DEFAULT_CUBE_PROJECTION}
+              onValueChange={(projection) => update({ cubeProjection: projection as CubeProjection })}
+              disabled={isConverting || (selectedFile !== null && isZipFile(selectedFile))}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {CUBE_PROJECTIONS.map((projection) => (
+                  <SelectItem key={projection} value={projection}>
+                    {CUBE_PROJECTION_LABELS[projection]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="outputWidth">Output Width</Label>
+            <Input
+              id="outputWidth"
+              type="number"
+              placeholder="4 × face size"
+              value={options.outputWidth ?? ""}
+              onChange={(e) => {
+                const width = Number.parseInt(e.target.value)
+                update({ outputWidth: Number.isNaN(width) ? undefined : width })
+              }}
+              disabled={isConverting}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Output Format</Label>
+            <Select
+              value={options.outputFormat ?? DEFAULT_TILE_FORMAT}
+              onValueChange={(format) => update({ outputFormat: format as TileFormat })}
+              disabled={isConverting}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {TILE_FORMATS.filter((format) => isBrowserTileEncodingSupported(format)).map((format) => (
+                  <SelectItem key={format} value={format}>
+                    {TILE_FORMAT_INFO[format].label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        {!validation.success && <p className="text-sm text-red-600">{formatOptionsError(validation.error)}</p>}
+
+        {selectedFile && (
+          <Button onClick={handleConvert} disabled={isConverting || !validation.success} className="w-full">
+            {isConverting ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Converting...
+              </>
+            ) : (
+              "Convert to Equirectangular"
+            )}
+          </Button>
+        )}
+
+        {result && (
+          <div className="space-y-4 p-4 bg-green-50 rounded-lg border border-green-200">
+            <div className="flex items-center justify-between">
+              <div>
+                <h3 className="font-semibold text-green-800">Conversion Complete!</h3>
+                <p className="text-sm text-green-600">
+                  {result.layout
+                    ? `${CUBE_LAYOUT_GEOMETRY[result.layout].label} with ${result.faceSize}px faces`
+                    : `Tile level ${result.tileSet?.z} with ${result.faceSize}px faces`}
+                </p>
+                <p className="text-sm text-green-600">
+                  {result.width}x{result.height} equirectangular .{result.extension}
+                </p>
+              </div>
+              <div className="flex gap-2">
+                <Button onClick={handleDownload} size="sm">
+                  <Download className="mr-2 h-4 w-4" />
+                  Download
+                </Button>
+                {onRetile && (
+                  <Button onClick={handleRetile} size="sm" variant="outline">
+                    <Grid3x3 className="mr-2 h-4 w-4" />
+                    Re-tile
+                  </Button>
+                )}
+              </div>
+            </div>
+            {result.tileSet && result.tileSet.missing.length > 0 && (
+              <div className="text-sm text-amber-700">
+                {result.tileSet.missing.length} tiles were missing and are left black:{" "}
+                {result.tileSet.missing.slice(0, MAX_LISTED_MISSING_TILES).join(", ")}
+                {result.tileSet.missing.length > MAX_LISTED_MISSING_TILES && ", …"}
+              </div>
+            )}
+            <img src={result.url} alt="Equirectangular result" className="w-full rounded border" />
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,250 @@
+// Full-resolution cubemap images for consumers that do not read tile pyramids: six face files or one packed
+// layout (cross, strip, YouTube 3×2 grid), with the face order, rotation and mirroring of the target convention.
+import { resolveTileEncoding } from "./formats"
+import { CUBE_LAYOUT_GEOMETRY, rotatedPixel, type FaceRotation, type LayoutCell } from "./layouts"
+import {
+  DEFAULT_CUBE_PROJECTION,
+  DEFAULT_CUBEMAP_EXPORT_LAYOUT,
+  DEFAULT_CUBEMAP_PRESET,
+  DEFAULT_FILTER,
+  DEFAULT_SUPERSAMPLING,
+  type ConversionOptions,
+  type CubemapExportLayout,
+  type CubemapPreset,
+} from "./options"
+import { nadirConfig } from "./nadir"
+import { orientationConfig } from "./orientation"
+import { FACE_NAMES, createRGBAImage, type FaceName, type RGBAImage } from "./projection"
+import { outputFaceSize, type SourceInfo } from "./tiles"
+
+// Mirroring is applied to the upright face first, then the clockwise rotation
+export interface FaceTransform {
+  rotation: FaceRotation
+  flipX: boolean
+  flipY: boolean
+}
+
+// One cube map slot: which projected face fills it and how that face is turned
+export interface CubemapSlot {
+  face: FaceName
+  transform: FaceTransform
+}
+
+interface CubemapPresetInfo {
+  label: string
+  // Keyed by the axis each slot stands for: r = +X, l = -X, u = +Y, d = -Y, f = +Z, b = -Z
+  slots: Record<FaceName, CubemapSlot>
+  // Slot sequence for strips, grids and numbered face files
+  order: FaceName[]
+  names: Record<FaceName, string>
+}
+
+const IDENTITY: FaceTransform = { rotation: 0, flipX: false, flipY: false }
+const MIRROR_X: FaceTransform = { rotation: 0, flipX: true, flipY: false }
+const MIRROR_Y: FaceTransform = { rotation: 0, flipX: false, flipY: true }
+
+const AXIS_ORDER: FaceName[] = ["r", "l", "u", "d", "f", "b"]
+
+function slotsFrom(faces: Record<FaceName, [FaceName, FaceTransform]>): Record<FaceName, CubemapSlot> {
+  return Object.fromEntries(
+    FACE_NAMES.map((slot) => [slot, { face: faces[slot][0], transform: faces[slot][1] }]),
+  ) as Record<FaceName, CubemapSlot>
+}
+
+const UPRIGHT_SLOTS = slotsFrom({
+  r: ["r", IDENTITY],
+  l: ["l", IDENTITY],
+  u: ["u", IDENTITY],
+  d: ["d", IDENTITY],
+  f: ["f", IDENTITY],
+  b: ["b", IDENTITY],
+})
+
+// The projected faces follow the cube map face addressing shared by Direct3D and OpenGL, seen from a
+// left-handed world looking down +Z. Left-handed engines take them as they are; a right-handed OpenGL
+// world looking down -Z negates z, which swaps front and back and mirrors every face.
+export const CUBEMAP_PRESET_INFO: Record<CubemapPreset, CubemapPresetInfo> = {
+  opengl: {
+    label: "OpenGL (right-handed, -Z forward)",
+    slots: slotsFrom({
+      r: ["r", MIRROR_X],
+      l: ["l", MIRROR_X],
+      u: ["u", MIRROR_Y],
+      d: ["d", MIRROR_Y],
+      f: ["b", MIRROR_X],
+      b: ["f", MIRROR_X],
+    }),
+    order: AXIS_ORDER,
+    names: { r: "px", l: "nx", u: "py", d: "ny", f: "pz", b: "nz" },
+  },
+  directx: {
+    label: "DirectX (left-handed, +Z forward)",
+    slots: UPRIGHT_SLOTS,
+    order: AXIS_ORDER,
+    names: { r: "posx", l: "negx", u: "posy", d: "negy", f: "posz", b: "negz" },
+  },
+  // Left-handed with +Z forward like Direct3D; names follow UnityEngine.CubemapFace
+  unity: {
+    label: "Unity",
+    slots: UPRIGHT_SLOTS,
+    order: AXIS_ORDER,
+    names: { r: "right", l: "left", u: "up", d: "down", f: "front", b: "back" },
+  },
+  // Marzipano's own letters, in the order its cube map preview images stack the faces
+  marzipano: {
+    label: "Marzipano",
+    slots: UPRIGHT_SLOTS,
+    order: ["b", "d", "f", "l", "r", "u"],
+    names: { r: "r", l: "l", u: "u", d: "d", f: "f", b: "b" },
+  },
+}
+
+export const CUBEMAP_EXPORT_LAYOUT_LABELS: Record<CubemapExportLayout, string> = {
+  faces: "Six face images",
+  ...Object.fromEntries(Object.entries(CUBE_LAYOUT_GEOMETRY).map(([layout, { label }]) => [layout, label])),
+} as Record<CubemapExportLayout, string>
+
+export interface CubemapExportSettings {
+  layout: CubemapExportLayout
+  preset: CubemapPreset
+  faceSize: number
+  order: FaceName[]
+  slots: Record<FaceName, CubemapSlot>
+  names: Record<FaceName, string>
+}
+
+// The preset supplies the defaults; `faceOrder` and `faceTransforms` override them slot by slot
+export function resolveCubemapExport(sourceWidth: number, options: ConversionOptions = {}): CubemapExportSettings {
+  const preset = options.cubemapPreset ?? DEFAULT_CUBEMAP_PRESET
+  const info = CUBEMAP_PRESET_INFO[preset]
+  const slots = { ...info.slots }
+  const overrides = Object.entries(options.faceTransforms ?? {}) as [FaceName, Partial<FaceTransform>][]
+  for (const [slot, transform] of overrides) {
+    slots[slot] = {
+      face: slots[slot].face,
+      transform: {
+        rotation: transform.rotation ?? 0,
+        flipX: transform.flipX ?? false,
+        flipY: transform.flipY ?? false,
+      },
+    }
+  }
+
+  return {
+    layout: options.cubemapLayout ?? DEFAULT_CUBEMAP_EXPORT_LAYOUT,
+    preset,
+    faceSize: outputFaceSize(sourceWidth, options),
+    order: options.faceOrder ?? info.order,
+    slots,
+    names: info.names,
+  }
+}
+
+// Cell of each slot in a packed layout, plus any turn the layout itself needs (the vertical cross hangs
+// the back face upside down, the 3×2 grid turns its bottom row). Crosses and the 3×2 grid have fixed cells;
+// strips follow the slot order.
+function layoutCells(settings: CubemapExportSettings): Record<FaceName, LayoutCell> {
+  if (settings.layout !== "strip" && settings.layout !== "faces") {
+    return CUBE_LAYOUT_GEOMETRY[settings.layout].cells
+  }
+  const { columns } = CUBE_LAYOUT_GEOMETRY.strip
+  return Object.fromEntries(
+    settings.order.map((slot, i) => [slot, { column: i % columns, row: Math.floor(i / columns), rotation: 0 }]),
+  ) as Record<FaceName, LayoutCell>
+}
+
+function addRotations(a: FaceRotation, b: FaceRotation): FaceRotation {
+  return ((a + b) % 360) as FaceRotation
+}
+
+// Copies an upright face into `target` at (left, top), mirrored and then rotated as given
+function drawFace(
+  target: RGBAImage,
+  face: RGBAImage,
+  left: number,
+  top: number,
+  flipX: boolean,
+  flipY: boolean,
+  rotation: FaceRotation,
+): void {
+  const size = face.width
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      const [tx, ty] = rotatedPixel(flipX ? size - 1 - x : x, flipY ? size - 1 - y : y, size, rotation)
+      const src = (y * size + x) * 4
+      target.data.set(face.data.subarray(src, src + 4), ((top + ty) * target.width + left + tx) * 4)
+    }
+  }
+}
+
+export interface CubemapExportImage {
+  // File name without extension
+  name: string
+  image: RGBAImage
+}
+
+// `faces` are the upright projected faces in r,l,u,d,f,b order
+export function composeCubemapExport(faces: RGBAImage[], settings: CubemapExportSettings): CubemapExportImage[] {
+  const size = faces[0].width
+  const faceFor = (slot: FaceName) => faces[FACE_NAMES.indexOf(settings.slots[slot].face)]
+
+  if (settings.layout === "faces") {
+    return settings.order.map((slot) => {
+      const { flipX, flipY, rotation } = settings.slots[slot].transform
+      const image = createRGBAImage(size, size)
+      drawFace(image, faceFor(slot), 0, 0, flipX, flipY, rotation)
+      return { name: settings.names[slot], image }
+    })
+  }
+
+  const { columns, rows } = CUBE_LAYOUT_GEOMETRY[settings.layout]
+  const cells = layoutCells(settings)
+  const image = createRGBAImage(columns * size, rows * size)
+  for (const slot of FACE_NAMES) {
+    const { flipX, flipY, rotation } = settings.slots[slot].transform
+    const { column, row, rotation: cellRotation } = cells[slot]
+    drawFace(image, faceFor(slot), column * size, row * size, flipX, flipY, addRotations(rotation, cellRotation))
+  }
+  return [{ name: `cubemap-${settings.layout}`, image }]
+}
+
+export function createCubemapExportConfig(source: SourceInfo, options: ConversionOptions = {}) {
+  const settings = resolveCubemapExport(source.width, options)
+  const encoding = resolveTileEncoding(options)
+  const cells = settings.layout === "faces" ? null : layoutCells(settings)
+  const nadir = nadirConfig(options)
+
+  return {
+    format: "cubemap-images",
+    layout: settings.layout,
+    preset: settings.preset,
+    projection: options.cubeProjection ?? DEFAULT_CUBE_PROJECTION,
+    sourceSize: { width: source.width, height: source.height },
+    ...(source.hdrFormat && { sourceFormat: source.hdrFormat }),
+    ...(source.gpano && { gpano: source.gpano }),
+    orientation: orientationConfig(options, source.gpano),
+    ...(nadir && { nadir }),
+    faceSize: settings.faceSize,
+    files:
+      settings.layout === "faces"
+        ? settings.order.map((slot) => `${settings.names[slot]}.${encoding.extension}`)
+        : [`cubemap-${settings.layout}.${encoding.extension}`],
+    slots: settings.order.map((slot) => ({
+      slot,
+      name: settings.names[slot],
+      face: settings.slots[slot].face,
+      ...settings.slots[slot].transform,
+      ...(cells && { column: cells[slot].column, row: cells[slot].row, layoutRotation: cells[slot].rotation }),
+    })),
+    settings: {
+      filter: options.filter ?? DEFAULT_FILTER,
+      ...(options.filter === "supersample" && { supersampling: options.supersampling ?? DEFAULT_SUPERSAMPLING }),
+      imageFormat: encoding.format,
+      ...(encoding.quality !== undefined && { quality: encoding.quality }),
+      requested: options,
+    },
+    description:
+      "Cube faces projected from the panorama; each slot lists the projected face (r,l,u,d,f,b) it holds " +
+      "and the mirroring and clockwise rotation applied to it",
+  }
+}
@@ -0,0 +1,128 @@
+// HDR environment cube maps for game engines and PBR lighting: six float faces as Radiance or OpenEXR
+// files, plus a KTX2 cube map with a full mip chain.
+import { encodeOpenEXR, encodeRadiance, floatToHalf } from "./hdr"
+import { encodeKTX2Cubemap, type KTX2CubemapLevel } from "./ktx2"
+import {
+  DEFAULT_ENVIRONMENT_FACE_FORMAT,
+  DEFAULT_FILTER,
+  DEFAULT_SUPERSAMPLING,
+  type ConversionOptions,
+  type EnvironmentFaceFormat,
+} from "./options"
+import { orientationConfig } from "./orientation"
+import { FACE_NAMES, generateFloatCubeFace, type FaceName, type FloatImage } from "./projection"
+import { REGIONS_FILE, regionsRecord } from "./regions"
+import { downsampleImage } from "./resize"
+import { outputFaceSize, type SourceInfo } from "./tiles"
+
+// faceUVToEquirectangular already follows the GL / Vulkan / KTX2 cube map orientation (faces in
+// +X, -X, +Y, -Y, +Z, -Z order, first row at the top), so r,l,u,d,f,b copy across without rotating.
+export const CUBE_MAP_FACES: Record<FaceName, { axis: string; name: string }> = {
+  r: { axis: "+X", name: "px" },
+  l: { axis: "-X", name: "nx" },
+  u: { axis: "+Y", name: "py" },
+  d: { axis: "-Y", name: "ny" },
+  f: { axis: "+Z", name: "pz" },
+  b: { axis: "-Z", name: "nz" },
+}
+
+export const ENVIRONMENT_FACE_FORMAT_INFO: Record<
+  EnvironmentFaceFormat,
+  { label: string; extension: string; encode: (image: FloatImage) => Uint8Array }
+> = {
+  hdr: { label: "Radiance RGBE", extension: "hdr", encode: encodeRadiance },
+  exr: { label: "OpenEXR (half float)", extension: "exr", encode: encodeOpenEXR },
+}
+
+export const ENVIRONMENT_KTX2_FILE = "environment.ktx2"
+
+export function mipLevelCount(size: number): number {
+  return Math.floor(Math.log2(size)) + 1
+}
+
+function environmentFaceFile(face: FaceName, format: EnvironmentFaceFormat): string {
+  return `faces/${CUBE_MAP_FACES[face].name}.${ENVIRONMENT_FACE_FORMAT_INFO[format].extension}`
+}
+
+function toHalfFloat(image: FloatImage): Uint16Array {
+  const half = new Uint16Array(image.data.length)
+  for (let i = 0; i < image.data.length; i++) {
+    half[i] = floatToHalf(image.data[i])
+  }
+  return half
+}
+
+export function createEnvironmentConfig(source: SourceInfo, options: ConversionOptions = {}) {
+  const faceSize = outputFaceSize(source.width, options)
+  const faceFormat = options.environmentFaceFormat ?? DEFAULT_ENVIRONMENT_FACE_FORMAT
+
+  return {
+    format: "environment-cubemap",
+    sourceSize: { width: source.width, height: source.height },
+    sourceFormat: source.hdrFormat ?? "srgb",
+    ...(source.gpano && { gpano: source.gpano }),
+    orientation: orientationConfig(options, source.gpano),
+    faceSize,
+    mipLevels: mipLevelCount(faceSize),
+    faceFormat: ENVIRONMENT_FACE_FORMAT_INFO[faceFormat].label,
+    ktx2: { file: ENVIRONMENT_KTX2_FILE, vkFormat: "VK_FORMAT_R16G16B16A16_SFLOAT" },
+    faceMapping: Object.fromEntries(
+      FACE_NAMES.map((face, index) => [
+        face,
+        { axis: CUBE_MAP_FACES[face].axis, file: environmentFaceFile(face, faceFormat), ktx2Face: index },
+      ]),
+    ),
+    settings: {
+      filter: options.filter ?? DEFAULT_FILTER,
+      ...(options.filter === "supersample" && { supersampling: options.supersampling ?? DEFAULT_SUPERSAMPLING }),
+      requested: options,
+    },
+    description:
+      "Linear-light environment cube map in GL/Vulkan face order (px, nx, py, ny, pz, nz as used by " +
+      "KTX2, three.js and Babylon.js), with 8-bit sources linearised from sRGB",
+  }
+}
+
+export interface EnvironmentFile {
+  name: string
+  data: Uint8Array | string
+}
+
+// Yields config.json (and the regions record when privacy regions were redacted), then each face file as
+// soon as it is projected, then the KTX2 once every face's mip chain is in. Only half-float copies of the
+// mips are kept between faces.
+export function* environmentFiles(
+  source: FloatImage,
+  sourceInfo: SourceInfo,
+  options: ConversionOptions = {},
+): Generator<EnvironmentFile> {
+  const size = outputFaceSize(source.width, options)
+  const format = options.environmentFaceFormat ?? DEFAULT_ENVIRONMENT_FACE_FORMAT
+  const levels: KTX2CubemapLevel[] = Array.from({ length: mipLevelCount(size) }, (_, i) => ({
+    size: Math.max(1, size >> i),
+    faces: [],
+  }))
+
+  yield { name: "config.json", data: JSON.stringify(createEnvironmentConfig(sourceInfo, options), null, 2) }
+  const regions = regionsRecord(options)
+  if (regions) {
+    yield { name: REGIONS_FILE, data: JSON.stringify(regions, null, 2) }
+  }
+
+  for (let face = 0; face < 6; face++) {
+    let image = generateFloatCubeFace(source, face, size, options)
+    yield {
+      name: environmentFaceFile(FACE_NAMES[face], format),
+      data: ENVIRONMENT_FACE_FORMAT_INFO[format].encode(image),
+    }
+
+    levels.forEach((level, i) => {
+      if (i > 0) {
+        image = downsampleImage(image, level.size, level.size)
+      }
+      level.faces.push(toHalfFloat(image))
+    })
+  }
+
+  yield { name: ENVIRONMENT_KTX2_FILE, data: encodeKTX2Cubemap(levels, { KTXwriter: "panorama-converter" }) }
+}
@@ -0,0 +1,77 @@
+// Cube faces -> equirectangular, the reverse of the tiling path. Faces come in r,l,u,d,f,b order and in
+// the orientation generateCubeFace writes them, so a round trip lands every pixel where it started.
+import type { CubeProjection } from "./options"
+import { createRGBAImage, equirectangularToFaceUV, faceToEAC, type RGBAImage } from "./projection"
+
+// Four faces span the equator, so this keeps the faces' pixel density there
+export function defaultEquirectangularWidth(faceSize: number): number {
+  return faceSize * 4
+}
+
+// Bilinear tap clamped to the face, so samples never bleed across a seam into the wrong face
+function accumulateFaceBilinear(face: RGBAImage, px: number, py: number, weight: number, accum: number[]): void {
+  const size = face.width
+  const fx0 = Math.max(0, Math.min(size - 1, px - 0.5))
+  const fy0 = Math.max(0, Math.min(size - 1, py - 0.5))
+  const x1 = Math.floor(fx0)
+  const y1 = Math.floor(fy0)
+  const x2 = Math.min(x1 + 1, size - 1)
+  const y2 = Math.min(y1 + 1, size - 1)
+  const fx = fx0 - x1
+  const fy = fy0 - y1
+
+  const i11 = (y1 * size + x1) * 4
+  const i21 = (y1 * size + x2) * 4
+  const i12 = (y2 * size + x1) * 4
+  const i22 = (y2 * size + x2) * 4
+
+  const w11 = (1 - fx) * (1 - fy) * weight
+  const w21 = fx * (1 - fy) * weight
+  const w12 = (1 - fx) * fy * weight
+  const w22 = fx * fy * weight
+
+  const data = face.data
+  for (let c = 0; c < 3; c++) {
+    accum[c] += data[i11 + c] * w11 + data[i21 + c] * w21 + data[i12 + c] * w12 + data[i22 + c] * w22
+  }
+}
+
+// Shrinking far below the faces' resolution would alias, so each output pixel then averages an N x N grid
+export function cubeFacesToEquirectangular(
+  faces: RGBAImage[],
+  width: number,
+  projection: CubeProjection = "standard",
+): RGBAImage {
+  const height = width / 2
+  const faceSize = faces[0].width
+  const samples = Math.min(4, Math.max(1, Math.round(defaultEquirectangularWidth(faceSize) / width)))
+  const weight = 1 / (samples * samples)
+  const result = createRGBAImage(width, height)
+  const pixel = [0, 0, 0]
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      pixel[0] = pixel[1] = pixel[2] = 0
+      for (let sy = 0; sy < samples; sy++) {
+        for (let sx = 0; sx < samples; sx++) {
+          const eqU = (x + (sx + 0.5) / samples) / width
+          const eqV = (y + (sy + 0.5) / samples) / height
+          let [face, u, v] = equirectangularToFaceUV(eqU, eqV)
+          if (projection === "eac") {
+            u = (faceToEAC(2 * u - 1) + 1) / 2
+            v = (faceToEAC(2 * v - 1) + 1) / 2
+          }
+          accumulateFaceBilinear(faces[face], u * faceSize, v * faceSize, weight, pixel)
+        }
+      }
+
+      const idx = (y * width + x) * 4
+      result.data[idx] = pixel[0]
+      result.data[idx + 1] = pixel[1]
+      result.data[idx + 2] = pixel[2]
+      result.data[idx + 3] = 255
+    }
+  }
+
+  return result
+}
@@ -0,0 +1,93 @@
+// Web Worker that projects and encodes whole cube faces off the main thread.
+// Each worker decodes the source once, then handles faces one at a time as the pool hands them out.
+import { resolveTileEncoding, type TileEncoding } from "./formats"
+import { applyGPano, type GPanoMetadata } from "./gpano"
+import { decodeHDRSource, detectHDRFormat, type HDRFormat } from "./hdr"
+import { patchNadir } from "./nadir"
+import type { ConversionOptions } from "./options"
+import { generateCubeFace, type RGBAImage } from "./projection"
+import { faceTiles, tilePath, type TileConfig } from "./tiles"
+
+export type FaceWorkerRequest =
+  | { type: "load"; file: Blob; options: ConversionOptions; nadirLogo?: Blob }
+  | { type: "face"; face: number; tileConfigs: TileConfig[]; options: ConversionOptions }
+  // Cubemap image output: the whole upright face comes back and the main thread composes the layout
+  | { type: "projectFace"; face: number; size: number; options: ConversionOptions }
+
+export type FaceWorkerResponse =
+  | { type: "loaded"; width: number; height: number; hdrFormat: HDRFormat | null; gpano: GPanoMetadata | null }
+  | { type: "tile"; path: string; blob: Blob }
+  | { type: "faceDone"; face: number }
+  | { type: "projectedFace"; face: number; image: RGBAImage }
+  | { type: "error"; message: string }
+
+let source: RGBAImage | null = null
+let nadirLogo: RGBAImage | null = null
+
+async function decode(file: Blob): Promise<RGBAImage> {
+  const bitmap = await createImageBitmap(file)
+  const canvas = new OffscreenCanvas(bitmap.width, bitmap.height)
+  const ctx = canvas.getContext("2d")!
+  ctx.drawImage(bitmap, 0, 0)
+  bitmap.close()
+  const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height)
+  return { width: imageData.width, height: imageData.height, data: imageData.data }
+}
+
+async function encodeTile(image: RGBAImage, encoding: TileEncoding): Promise<Blob> {
+  const canvas = new OffscreenCanvas(image.width, image.height)
+  const ctx = canvas.getContext("2d")!
+  ctx.putImageData(new ImageData(image.data, image.width, image.height), 0, 0)
+
+  const blob = await canvas.convertToBlob({ type: encoding.mimeType, quality: encoding.quality })
+  // Browsers silently fall back to PNG for types they cannot encode
+  if (blob.type !== encoding.mimeType) {
+    throw new Error(`This browser cannot encode ${encoding.format.toUpperCase()} tiles`)
+  }
+  return blob
+}
+
+function post(message: FaceWorkerResponse, transfer: Transferable[] = []) {
+  self.postMessage(message, { transfer })
+}
+
+self.onmessage = async (event: MessageEvent<FaceWorkerRequest>) => {
+  const request = event.data
+
+  try {
+    if (request.type === "load") {
+      // HDR files are not decodable by createImageBitmap, so sniff them first and tone-map in JS
+      const buffer = await request.file.arrayBuffer()
+      const hdrFormat = detectHDRFormat(buffer)
+      const decoded = hdrFormat ? decodeHDRSource(buffer, request.options) : await decode(request.file)
+      const { image, gpano } = applyGPano(decoded, buffer, request.options)
+      source = image
+      nadirLogo = request.nadirLogo ? await decode(request.nadirLogo) : null
+      post({ type: "loaded", width: source.width, height: source.height, hdrFormat, gpano })
+      return
+    }
+
+    if (!source) {
+      throw new Error("Source image has not been loaded")
+    }
+
+    if (request.type === "projectFace") {
+      const image = patchNadir(
+        generateCubeFace(source, request.face, request.size, request.options),
+        request.face,
+        request.options,
+        nadirLogo,
+      )
+      post({ type: "projectedFace", face: request.face, image }, [image.data.buffer])
+      return
+    }
+
+    const encoding = resolveTileEncoding(request.options)
+    for (const tile of faceTiles(source, request.face, request.tileConfigs, request.options, nadirLogo)) {
+      post({ type: "tile", path: tilePath(tile), blob: await encodeTile(tile.image, encoding) })
+    }
+    post({ type: "faceDone", face: request.face })
+  } catch (error) {
+    post({ type: "error", message: error instanceof Error ? error.message : "Unknown worker error" })
+  }
+}
@@ -0,0 +1,54 @@
+import { krpanoTileUrl } from "./krpano"
+import {
+  DEFAULT_TILE_FORMAT,
+  DEFAULT_TILE_TARGET,
+  type ConversionOptions,
+  type TileFormat,
+  type TileTarget,
+} from "./options"
+import { pannellumTileUrl } from "./pannellum"
+
+export interface TileFormatInfo {
+  label: string
+  extension: string
+  mimeType: string
+  // undefined for formats without a quality setting
+  defaultQuality?: number
+}
+
+export const TILE_FORMAT_INFO: Record<TileFormat, TileFormatInfo> = {
+  jpeg: { label: "JPEG", extension: "jpg", mimeType: "image/jpeg", defaultQuality: 1.0 },
+  webp: { label: "WebP", extension: "webp", mimeType: "image/webp", defaultQuality: 0.9 },
+  avif: { label: "AVIF", extension: "avif", mimeType: "image/avif", defaultQuality: 0.7 },
+  png: { label: "PNG", extension: "png", mimeType: "image/png" },
+}
+
+export interface TileEncoding {
+  format: TileFormat
+  extension: string
+  mimeType: string
+  quality?: number
+  lossless: boolean
+}
+
+// Resolves the encoding settings that are actually used, with per-format defaults filled in
+export function resolveTileEncoding(options: ConversionOptions): TileEncoding {
+  const format = options.tileFormat ?? DEFAULT_TILE_FORMAT
+  const info = TILE_FORMAT_INFO[format]
+  const lossless = format === "png" || (format === "webp" && !!options.lossless)
+
+  return {
+    format,
+    extension: info.extension,
+    mimeType: info.mimeType,
+    quality: lossless || info.defaultQuality === undefined ? undefined : (options.quality ?? info.defaultQuality),
+    lossless,
+  }
+}
+
+export function tileStructure(encoding: TileEncoding, target: TileTarget = DEFAULT_TILE_TARGET): string {
+  if (target === "krpano") {
+    return krpanoTileUrl(encoding)
+  }
+  return target === "pannellum" ? pannellumTileUrl(encoding) : `{z}/{f}/{y}/{x}.${encoding.extension}`
+}
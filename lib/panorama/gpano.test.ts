@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest"
+import { readGPano } from "./gpano"
+
+const XMP =
+  '<x:xmpmeta xmlns:x="adobe:ns:meta/"><rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">' +
+  '<rdf:Description xmlns:GPano="http://ns.google.com/photos/1.0/panorama/" GPano:ProjectionType="equirectangular"' +
+  ' GPano:FullPanoWidthPixels="8000" GPano:FullPanoHeightPixels="4000" GPano:CroppedAreaLeftPixels="0"' +
+  ' GPano:CroppedAreaTopPixels="1000" GPano:CroppedAreaImageWidthPixels="8000"' +
+  ' GPano:CroppedAreaImageHeightPixels="2000" GPano:PoseHeadingDegrees="45.5"/>' +
+  "</rdf:RDF></x:xmpmeta>"
+
+const bytes = (text: string) => Array.from(new TextEncoder().encode(text))
+
+function jpeg(xmp: string): ArrayBuffer {
+  const payload = [...bytes("http://ns.adobe.com/xap/1.0/\0"), ...bytes(xmp)]
+  const length = payload.length + 2
+  return Uint8Array.from([0xff, 0xd8, 0xff, 0xe1, length >> 8, length & 0xff, ...payload, 0xff, 0xda, 0, 2]).buffer
+}
+
+function png(xmp: string): ArrayBuffer {
+  const data = [...bytes("XML:com.adobe.xmp\0"), 0, 0, 0, 0, ...bytes(xmp)]
+  const u32 = (value: number) => [value >>> 24, (value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff]
+  // CRCs are left as zero; the reader does not check them
+  const chunk = (type: string, body: number[]) => [...u32(body.length), ...bytes(type), ...body, 0, 0, 0, 0]
+  return Uint8Array.from([0x89, ...bytes("PNG\r\n\x1a\n"), ...chunk("iTXt", data), ...chunk("IEND", [])]).buffer
+}
+
+describe("readGPano", () => {
+  it("reads the crop from a JPEG APP1 segment", () => {
+    expect(readGPano(jpeg(XMP))).toEqual({
+      projectionType: "equirectangular",
+      fullPanoWidth: 8000,
+      fullPanoHeight: 4000,
+      croppedAreaLeft: 0,
+      croppedAreaTop: 1000,
+      croppedAreaWidth: 8000,
+      croppedAreaHeight: 2000,
+      poseHeadingDegrees: 45.5,
+      posePitchDegrees: undefined,
+      poseRollDegrees: undefined,
+    })
+  })
+
+  it("reads the crop from a PNG iTXt chunk", () => {
+    expect(readGPano(png(XMP))?.croppedAreaTop).toBe(1000)
+  })
+
+  it("ignores XMP without a complete crop", () => {
+    expect(readGPano(jpeg(XMP.replace(/ GPano:FullPanoWidthPixels="8000"/, "")))).toBeNull()
+    expect(readGPano(jpeg("<x:xmpmeta></x:xmpmeta>"))).toBeNull()
+  })
+})
@@ -0,0 +1,377 @@
+// Google Photo Sphere (GPano) XMP metadata, and placing a cropped panorama where it belongs on the full
+// sphere. Phones and drones write partial panoramas (often well under 180° vertically) with the crop in
+// GPano:CroppedArea*; without it the converter would stretch the crop over the whole sphere.
+import {
+  DEFAULT_CROP_FILL,
+  DEFAULT_CROP_FILL_COLOR,
+  parseHexColor,
+  type ConversionOptions,
+  type CropFill,
+} from "./options"
+import { createRGBAImage, type RGBAImage } from "./projection"
+
+export interface GPanoMetadata {
+  projectionType?: string
+  fullPanoWidth: number
+  fullPanoHeight: number
+  croppedAreaLeft: number
+  croppedAreaTop: number
+  croppedAreaWidth: number
+  croppedAreaHeight: number
+  poseHeadingDegrees?: number
+  posePitchDegrees?: number
+  poseRollDegrees?: number
+}
+
+const GPANO_FIELDS = {
+  fullPanoWidth: "FullPanoWidthPixels",
+  fullPanoHeight: "FullPanoHeightPixels",
+  croppedAreaLeft: "CroppedAreaLeftPixels",
+  croppedAreaTop: "CroppedAreaTopPixels",
+  croppedAreaWidth: "CroppedAreaImageWidthPixels",
+  croppedAreaHeight: "CroppedAreaImageHeightPixels",
+  poseHeadingDegrees: "PoseHeadingDegrees",
+  posePitchDegrees: "PosePitchDegrees",
+  poseRollDegrees: "PoseRollDegrees",
+} as const
+
+// XMP writers use either attributes (GPano:Name="value") or elements (<GPano:Name>value</GPano:Name>)
+function gpanoValue(xmp: string, name: string): string | undefined {
+  const match =
+    new RegExp(`GPano:${name}\\s*=\\s*["']([^"']*)["']`).exec(xmp) ??
+    new RegExp(`<GPano:${name}>([^<]*)</GPano:${name}>`).exec(xmp)
+  return match?.[1].trim()
+}
+
+const JPEG_XMP_HEADER = "http://ns.adobe.com/xap/1.0/\0"
+const PNG_XMP_KEYWORD = "XML:com.adobe.xmp\0"
+// Other formats are only searched this far in, which covers packets written ahead of the image data
+const XMP_SCAN_BYTES = 512 * 1024
+
+function ascii(bytes: Uint8Array, start: number, length: number): string {
+  return String.fromCharCode(...bytes.subarray(start, start + length))
+}
+
+// Candidate XMP text, found by walking the container's segments or chunks so only their headers and the
+// packets themselves are read, never the image data
+function* xmpCandidates(bytes: Uint8Array): Generator<Uint8Array> {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+
+  // JPEG: APP1 segments up to the start of scan
+  if (bytes[0] === 0xff && bytes[1] === 0xd8) {
+    let offset = 2
+    while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+      const marker = bytes[offset + 1]
+      if (marker === 0xff) {
+        offset++
+        continue
+      }
+      if (marker === 0xda || marker === 0xd9) return
+      const length = view.getUint16(offset + 2)
+      if (marker === 0xe1 && ascii(bytes, offset + 4, JPEG_XMP_HEADER.length) === JPEG_XMP_HEADER) {
+        yield bytes.subarray(offset + 4 + JPEG_XMP_HEADER.length, offset + 2 + length)
+      }
+      offset += 2 + length
+    }
+    return
+  }
+
+  // PNG: iTXt chunks under the XMP keyword
+  if (ascii(bytes, 1, 3) === "PNG") {
+    let offset = 8
+    while (offset + 8 <= bytes.length) {
+      const length = view.getUint32(offset)
+      const type = ascii(bytes, offset + 4, 4)
+      if (type === "IEND") return
+      if (type === "iTXt" && ascii(bytes, offset + 8, PNG_XMP_KEYWORD.length) === PNG_XMP_KEYWORD) {
+        yield bytes.subarray(offset + 8, offset + 8 + length)
+      }
+      offset += 12 + length
+    }
+    return
+  }
+
+  // WebP: the "XMP " chunk, which the format places after the image data
+  if (ascii(bytes, 0, 4) === "RIFF" && ascii(bytes, 8, 4) === "WEBP") {
+    let offset = 12
+    while (offset + 8 <= bytes.length) {
+      const size = view.getUint32(offset + 4, true)
+      if (ascii(bytes, offset, 4) === "XMP ") {
+        yield bytes.subarray(offset + 8, offset + 8 + size)
+      }
+      offset += 8 + size + (size % 2)
+    }
+    return
+  }
+
+  yield bytes.subarray(0, XMP_SCAN_BYTES)
+}
+
+// The XMP packet that carries GPano, decoded on its own
+function findGPanoPacket(buffer: ArrayBuffer): string | null {
+  const decoder = new TextDecoder()
+  for (const candidate of xmpCandidates(new Uint8Array(buffer))) {
+    const text = decoder.decode(candidate)
+    const start = text.indexOf("<x:xmpmeta")
+    if (start === -1) continue
+    const end = text.indexOf("</x:xmpmeta>", start)
+    const xmp = text.slice(start, end === -1 ? undefined : end)
+    if (xmp.includes("GPano")) return xmp
+  }
+  return null
+}
+
+// Reads the XMP of JPEG, PNG and WebP files. Returns null when there is no GPano crop; a panorama without one is
+// taken as the full sphere.
+export function readGPano(buffer: ArrayBuffer): GPanoMetadata | null {
+  const xmp = findGPanoPacket(buffer)
+  if (!xmp) return null
+
+  const numbers: Partial<Record<keyof typeof GPANO_FIELDS, number>> = {}
+  for (const [key, name] of Object.entries(GPANO_FIELDS) as [keyof typeof GPANO_FIELDS, string][]) {
+    const value = Number.parseFloat(gpanoValue(xmp, name) ?? "")
+    if (Number.isFinite(value)) {
+      numbers[key] = value
+    }
+  }
+
+  const { fullPanoWidth, fullPanoHeight, croppedAreaWidth, croppedAreaHeight } = numbers
+  if (!fullPanoWidth || !fullPanoHeight || !croppedAreaWidth || !croppedAreaHeight) {
+    return null
+  }
+
+  return {
+    projectionType: gpanoValue(xmp, "ProjectionType"),
+    fullPanoWidth,
+    fullPanoHeight,
+    croppedAreaLeft: numbers.croppedAreaLeft ?? 0,
+    croppedAreaTop: numbers.croppedAreaTop ?? 0,
+    croppedAreaWidth,
+    croppedAreaHeight,
+    poseHeadingDegrees: numbers.poseHeadingDegrees,
+    posePitchDegrees: numbers.posePitchDegrees,
+    poseRollDegrees: numbers.poseRollDegrees,
+  }
+}
+
+// Angular coverage of the crop, for display
+export function gpanoCoverage(gpano: GPanoMetadata): { horizontal: number; vertical: number } {
+  return {
+    horizontal: (gpano.croppedAreaWidth / gpano.fullPanoWidth) * 360,
+    vertical: (gpano.croppedAreaHeight / gpano.fullPanoHeight) * 180,
+  }
+}
+
+export function isCroppedPanorama(gpano: GPanoMetadata | null): boolean {
+  return (
+    gpano !== null &&
+    (gpano.projectionType ?? "equirectangular") === "equirectangular" &&
+    (gpano.croppedAreaWidth < gpano.fullPanoWidth || gpano.croppedAreaHeight < gpano.fullPanoHeight)
+  )
+}
+
+// Reflects an offset back into [0, length), repeating the reflection for gaps wider than the image
+function reflect(offset: number, length: number): number {
+  const period = 2 * length
+  const m = ((offset % period) + period) % period
+  return m < length ? m : period - 1 - m
+}
+
+function copyPixel(data: Uint8ClampedArray, from: number, to: number): void {
+  data[to] = data[from]
+  data[to + 1] = data[from + 1]
+  data[to + 2] = data[from + 2]
+}
+
+// Box-blurs one row of `data` with horizontal wrap-around into `out`, using a running sum
+function blurRow(data: Uint8ClampedArray, width: number, row: number, radius: number, out: Float32Array): void {
+  const base = row * width * 4
+  const r = Math.min(radius, Math.floor((width - 1) / 2))
+  const sum = [0, 0, 0]
+  for (let i = -r; i <= r; i++) {
+    const idx = base + ((i + width) % width) * 4
+    sum[0] += data[idx]
+    sum[1] += data[idx + 1]
+    sum[2] += data[idx + 2]
+  }
+
+  const count = 2 * r + 1
+  for (let x = 0; x < width; x++) {
+    out[x * 3] = sum[0] / count
+    out[x * 3 + 1] = sum[1] / count
+    out[x * 3 + 2] = sum[2] / count
+    const leaving = base + ((x - r + width) % width) * 4
+    const entering = base + ((x + r + 1) % width) * 4
+    for (let c = 0; c < 3; c++) {
+      sum[c] += data[entering + c] - data[leaving + c]
+    }
+  }
+}
+
+// Fills the columns the crop does not reach, on the rows it does. The gap wraps across the ±180° seam, from
+// the crop's right edge round to its left edge.
+function fillHorizontalGap(
+  image: RGBAImage,
+  left: number,
+  top: number,
+  cropWidth: number,
+  cropHeight: number,
+  fill: CropFill,
+  color: [number, number, number],
+): void {
+  const { width, data } = image
+  const gap = width - cropWidth
+  if (gap <= 0) return
+
+  for (let y = top; y < top + cropHeight; y++) {
+    const row = y * width
+    const rightEdge = (row + ((left + cropWidth - 1) % width)) * 4
+    const leftEdge = (row + left) * 4
+    for (let i = 0; i < gap; i++) {
+      const to = (row + ((left + cropWidth + i) % width)) * 4
+      if (fill === "color") {
+        data.set(color, to)
+      } else if (fill === "mirror") {
+        // The nearer half of the gap reflects the nearer edge
+        const cropX = i < gap / 2 ? cropWidth - 1 - reflect(i, cropWidth) : reflect(gap - 1 - i, cropWidth)
+        copyPixel(data, (row + ((left + cropX) % width)) * 4, to)
+      } else {
+        // Blend the two edges across the gap; the rows are blurred as a whole afterwards
+        const t = (i + 0.5) / gap
+        for (let c = 0; c < 3; c++) {
+          data[to + c] = data[rightEdge + c] * (1 - t) + data[leftEdge + c] * t
+        }
+      }
+    }
+  }
+}
+
+// Fills the rows above and below the crop. The blurred extension widens its blur towards the pole, where
+// the whole row collapses to a single point and so becomes the row's average.
+function fillVerticalGaps(
+  image: RGBAImage,
+  top: number,
+  cropHeight: number,
+  fill: CropFill,
+  color: [number, number, number],
+): void {
+  const { width, height, data } = image
+  const bottom = top + cropHeight
+  const blurred = new Float32Array(width * 3)
+
+  const fillRow = (y: number, edgeRow: number, distance: number, poleDistance: number) => {
+    const row = y * width * 4
+    if (fill === "color") {
+      for (let x = 0; x < width; x++) data.set(color, row + x * 4)
+    } else if (fill === "mirror") {
+      const sourceRow = y < top ? top + reflect(top - 1 - y, cropHeight) : bottom - 1 - reflect(y - bottom, cropHeight)
+      data.copyWithin(row, sourceRow * width * 4, (sourceRow + 1) * width * 4)
+    } else {
+      blurRow(data, width, edgeRow, Math.round((width / 2) * (distance / poleDistance)), blurred)
+      for (let x = 0; x < width; x++) {
+        data[row + x * 4] = blurred[x * 3]
+        data[row + x * 4 + 1] = blurred[x * 3 + 1]
+        data[row + x * 4 + 2] = blurred[x * 3 + 2]
+      }
+    }
+  }
+
+  for (let y = top - 1; y >= 0; y--) {
+    fillRow(y, top, top - y, top)
+  }
+  for (let y = bottom; y < height; y++) {
+    fillRow(y, bottom - 1, y - bottom + 1, height - bottom)
+  }
+}
+
+// Softens the horizontal gap after blending so its seams with the crop are not hard lines
+function blurHorizontalGap(image: RGBAImage, left: number, top: number, cropWidth: number, cropHeight: number) {
+  const { width, data } = image
+  const gap = width - cropWidth
+  if (gap <= 0) return
+
+  const blurred = new Float32Array(width * 3)
+  const radius = Math.max(1, Math.round(gap / 8))
+  for (let y = top; y < top + cropHeight; y++) {
+    blurRow(data, width, y, radius, blurred)
+    for (let i = 0; i < gap; i++) {
+      const x = (left + cropWidth + i) % width
+      const idx = (y * width + x) * 4
+      data[idx] = blurred[x * 3]
+      data[idx + 1] = blurred[x * 3 + 1]
+      data[idx + 2] = blurred[x * 3 + 2]
+    }
+  }
+}
+
+// Places a cropped panorama on the full equirectangular sphere and fills the rest. GPano pixel values refer
+// to the image as it was written; if it has been resized since, everything scales with its width.
+export function placeCroppedPanorama(
+  image: RGBAImage,
+  gpano: GPanoMetadata,
+  options: ConversionOptions = {},
+): RGBAImage {
+  const scale = image.width / gpano.croppedAreaWidth
+  const width = Math.round(gpano.fullPanoWidth * scale)
+  const height = Math.round(gpano.fullPanoHeight * scale)
+  const left = Math.round(gpano.croppedAreaLeft * scale) % width
+  const top = Math.min(Math.round(gpano.croppedAreaTop * scale), height - image.height)
+  const cropWidth = Math.min(image.width, width)
+  const cropHeight = image.height
+
+  const fill = options.cropFill ?? DEFAULT_CROP_FILL
+  const color = parseHexColor(options.cropFillColor ?? DEFAULT_CROP_FILL_COLOR)
+  const result = createRGBAImage(width, height)
+  result.data.fill(255)
+
+  for (let y = 0; y < cropHeight; y++) {
+    for (let x = 0; x < cropWidth; x++) {
+      const from = (y * image.width + x) * 4
+      result.data.set(image.data.subarray(from, from + 3), ((top + y) * width + ((left + x) % width)) * 4)
+    }
+  }
+
+  fillHorizontalGap(result, left, top, cropWidth, cropHeight, fill, color)
+  if (fill === "blur") {
+    blurHorizontalGap(result, left, top, cropWidth, cropHeight)
+  }
+  fillVerticalGaps(result, top, cropHeight, fill, color)
+  return result
+}
+
+// GPano:PoseHeadingDegrees is the compass heading of the image centre, and the front face sits a quarter turn
+// right of it, so shifting the columns by a quarter turn plus the heading puts north in front. A whole-pixel
+// shift is exact and cheaper than resampling.
+export function alignToHeading(image: RGBAImage, heading: number): RGBAImage {
+  const { width, height } = image
+  const shift = ((Math.round(width * (0.25 + heading / 360)) % width) + width) % width
+  if (shift === 0) return image
+
+  const result = createRGBAImage(width, height)
+  for (let y = 0; y < height; y++) {
+    const row = y * width * 4
+    result.data.set(image.data.subarray(row, row + (width - shift) * 4), row + shift * 4)
+    result.data.set(image.data.subarray(row + (width - shift) * 4, row + width * 4), row)
+  }
+  return result
+}
+
+// The decode step of every converter: reads GPano from the encoded file, places cropped panoramas on the full
+// sphere and optionally turns north to the front. `applyGPano: false` keeps the old stretch-to-fit behaviour.
+export function applyGPano(
+  image: RGBAImage,
+  buffer: ArrayBuffer,
+  options: ConversionOptions = {},
+): { image: RGBAImage; gpano: GPanoMetadata | null } {
+  const gpano = readGPano(buffer)
+  if (!gpano) {
+    return { image, gpano }
+  }
+
+  let placed =
+    options.applyGPano !== false && isCroppedPanorama(gpano) ? placeCroppedPanorama(image, gpano, options) : image
+  if (options.alignGPanoHeading && gpano.poseHeadingDegrees !== undefined) {
+    placed = alignToHeading(placed, gpano.poseHeadingDegrees)
+  }
+  return { image: placed, gpano }
+}
@@ -0,0 +1,50 @@
+import { describe, expect, it } from "vitest"
+import { decodeOpenEXR, decodeRadiance, encodeOpenEXR, encodeRadiance, floatToHalf } from "./hdr"
+import { createFloatImage } from "./projection"
+
+// Wide enough for the Radiance writer to run-length encode its rows
+function gradient() {
+  const image = createFloatImage(10, 2)
+  for (let i = 0; i < 20; i++) {
+    image.data.set([i * 0.2, 1, 4 - i * 0.125, 1], i * 4)
+  }
+  return image
+}
+
+describe("floatToHalf", () => {
+  it("encodes exact values", () => {
+    expect(floatToHalf(0)).toBe(0)
+    expect(floatToHalf(1)).toBe(0x3c00)
+    expect(floatToHalf(-2)).toBe(0xc000)
+    expect(floatToHalf(65504)).toBe(0x7bff)
+  })
+})
+
+describe("encodeOpenEXR", () => {
+  it("writes the magic number and a single-part scanline version", () => {
+    const file = encodeOpenEXR(gradient())
+    expect(Array.from(file.subarray(0, 8))).toEqual([0x76, 0x2f, 0x31, 0x01, 2, 0, 0, 0])
+  })
+
+  it("reads back what it wrote", () => {
+    const image = gradient()
+    const decoded = decodeOpenEXR(encodeOpenEXR(image).slice().buffer)
+    expect([decoded.width, decoded.height]).toEqual([10, 2])
+    decoded.data.forEach((value, i) => expect(value).toBeCloseTo(image.data[i], 2))
+  })
+})
+
+describe("encodeRadiance", () => {
+  it("writes the RGBE signature and resolution line", () => {
+    const text = new TextDecoder().decode(encodeRadiance(gradient()).subarray(0, 64))
+    expect(text.startsWith("#?RADIANCE\n")).toBe(true)
+    expect(text).toContain("FORMAT=32-bit_rle_rgbe\n\n-Y 2 +X 10\n")
+  })
+
+  it("reads back what it wrote", () => {
+    const image = gradient()
+    const decoded = decodeRadiance(encodeRadiance(image).slice().buffer)
+    expect([decoded.width, decoded.height]).toEqual([10, 2])
+    decoded.data.forEach((value, i) => expect(value).toBeCloseTo(image.data[i], 1))
+  })
+})
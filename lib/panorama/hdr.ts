@@ -0,0 +1,444 @@
+// HDR panorama decoding and encoding (Radiance .hdr and OpenEXR) and tone mapping down to 8-bit RGBA.
+// Pure typed-array code, so it runs in the browser, in a Web Worker and in Node.
+import parseExr from "parse-exr"
+import {
+  DEFAULT_EXPOSURE,
+  DEFAULT_GAMMA,
+  DEFAULT_TONE_MAPPING,
+  type ConversionOptions,
+  type ToneMapping,
+} from "./options"
+import { createFloatImage, createRGBAImage, type FloatImage, type RGBAImage } from "./projection"
+
+export type HDRFormat = "radiance" | "openexr"
+
+export function detectHDRFormat(buffer: ArrayBuffer): HDRFormat | null {
+  const bytes = new Uint8Array(buffer, 0, Math.min(10, buffer.byteLength))
+  if (bytes[0] === 0x76 && bytes[1] === 0x2f && bytes[2] === 0x31 && bytes[3] === 0x01) {
+    return "openexr"
+  }
+  const magic = String.fromCharCode(...bytes)
+  if (magic.startsWith("#?RADIANCE") || magic.startsWith("#?RGBE")) {
+    return "radiance"
+  }
+  return null
+}
+
+export function isHDRFileName(name: string): boolean {
+  return /\.(hdr|exr)$/i.test(name)
+}
+
+export function decodeHDR(buffer: ArrayBuffer): FloatImage {
+  switch (detectHDRFormat(buffer)) {
+    case "radiance":
+      return decodeRadiance(buffer)
+    case "openexr":
+      return decodeOpenEXR(buffer)
+    default:
+      throw new Error("Not a Radiance .hdr or OpenEXR file")
+  }
+}
+
+function readLine(bytes: Uint8Array, offset: number): { line: string; next: number } {
+  let end = offset
+  while (end < bytes.length && bytes[end] !== 0x0a) {
+    end++
+  }
+  return { line: String.fromCharCode(...bytes.subarray(offset, end)), next: end + 1 }
+}
+
+// Reads one scanline of RGBE pixels, handling flat, old-style RLE and per-channel ("new") RLE encodings.
+// Returns the offset just past the scanline.
+function readRadianceScanline(bytes: Uint8Array, offset: number, width: number, out: Uint8Array): number {
+  const isNewRLE =
+    width >= 8 && width < 0x8000 && bytes[offset] === 2 && bytes[offset + 1] === 2 && !(bytes[offset + 2] & 0x80)
+
+  if (isNewRLE) {
+    if (((bytes[offset + 2] << 8) | bytes[offset + 3]) !== width) {
+      throw new Error("Corrupt Radiance scanline: width mismatch")
+    }
+    offset += 4
+    for (let channel = 0; channel < 4; channel++) {
+      let x = 0
+      while (x < width) {
+        let count = bytes[offset++]
+        if (count > 128) {
+          count -= 128
+          const value = bytes[offset++]
+          for (let i = 0; i < count; i++) out[x++ * 4 + channel] = value
+        } else {
+          for (let i = 0; i < count; i++) out[x++ * 4 + channel] = bytes[offset++]
+        }
+        if (x > width) {
+          throw new Error("Corrupt Radiance scanline: run overflows the row")
+        }
+      }
+    }
+    return offset
+  }
+
+  let x = 0
+  let shift = 0
+  while (x < width) {
+    const r = bytes[offset]
+    const g = bytes[offset + 1]
+    const b = bytes[offset + 2]
+    const e = bytes[offset + 3]
+    offset += 4
+
+    if (r === 1 && g === 1 && b === 1) {
+      // Old-style run: repeat the previous pixel, with counts accumulating in 8-bit steps
+      const count = e << shift
+      for (let i = 0; i < count && x > 0 && x < width; i++, x++) {
+        out.copyWithin(x * 4, (x - 1) * 4, x * 4)
+      }
+      shift += 8
+    } else {
+      out[x * 4] = r
+      out[x * 4 + 1] = g
+      out[x * 4 + 2] = b
+      out[x * 4 + 3] = e
+      x++
+      shift = 0
+    }
+  }
+  return offset
+}
+
+export function decodeRadiance(buffer: ArrayBuffer): FloatImage {
+  const bytes = new Uint8Array(buffer)
+  let offset = 0
+
+  // Header: key=value lines up to an empty line, then the resolution string
+  for (;;) {
+    if (offset >= bytes.length) {
+      throw new Error("Corrupt Radiance file: missing header terminator")
+    }
+    const { line, next } = readLine(bytes, offset)
+    offset = next
+    if (line === "") break
+    if (line.startsWith("FORMAT=") && line !== "FORMAT=32-bit_rle_rgbe") {
+      throw new Error(`Unsupported Radiance format: ${line.slice(7)}`)
+    }
+  }
+
+  const { line: resolution, next } = readLine(bytes, offset)
+  offset = next
+  const match = /^([-+])Y (\d+) \+X (\d+)$/.exec(resolution.trim())
+  if (!match) {
+    throw new Error(`Unsupported Radiance orientation: ${resolution}`)
+  }
+  const bottomUp = match[1] === "+"
+  const height = Number(match[2])
+  const width = Number(match[3])
+
+  const image = createFloatImage(width, height)
+  const data = image.data
+  const scanline = new Uint8Array(width * 4)
+
+  for (let row = 0; row < height; row++) {
+    offset = readRadianceScanline(bytes, offset, width, scanline)
+    const y = bottomUp ? height - 1 - row : row
+    for (let x = 0; x < width; x++) {
+      const e = scanline[x * 4 + 3]
+      const idx = (y * width + x) * 4
+      if (e === 0) {
+        data[idx] = data[idx + 1] = data[idx + 2] = 0
+      } else {
+        const f = Math.pow(2, e - 136)
+        data[idx] = (scanline[x * 4] + 0.5) * f
+        data[idx + 1] = (scanline[x * 4 + 1] + 0.5) * f
+        data[idx + 2] = (scanline[x * 4 + 2] + 0.5) * f
+      }
+      data[idx + 3] = 1
+    }
+  }
+
+  return image
+}
+
+const EXR_FLOAT_TYPE = 1015
+const EXR_RED_FORMAT = 1028
+
+export function decodeOpenEXR(buffer: ArrayBuffer): FloatImage {
+  const exr = parseExr(buffer, EXR_FLOAT_TYPE)
+  const { width, height } = exr
+  const channels = exr.format === EXR_RED_FORMAT ? 1 : 4
+  const image = createFloatImage(width, height)
+  const data = image.data
+
+  // The parser emits rows bottom-up (for GL textures); flip them back to top-down
+  for (let y = 0; y < height; y++) {
+    const sourceRow = (height - 1 - y) * width
+    for (let x = 0; x < width; x++) {
+      const src = (sourceRow + x) * channels
+      const dst = (y * width + x) * 4
+      data[dst] = exr.data[src]
+      data[dst + 1] = exr.data[channels === 1 ? src : src + 1]
+      data[dst + 2] = exr.data[channels === 1 ? src : src + 2]
+      data[dst + 3] = 1
+    }
+  }
+
+  return image
+}
+
+// ACES filmic curve (Narkowicz fit)
+function acesFilmic(x: number): number {
+  return (x * (2.51 * x + 0.03)) / (x * (2.43 * x + 0.59) + 0.14)
+}
+
+const OPERATORS: Record<ToneMapping, (x: number) => number> = {
+  aces: acesFilmic,
+  reinhard: (x) => x / (1 + x),
+  linear: (x) => x,
+}
+
+export interface ToneMappingSettings {
+  operator: ToneMapping
+  exposure: number
+  gamma: number
+}
+
+export function resolveToneMapping(options: ConversionOptions): ToneMappingSettings {
+  return {
+    operator: options.toneMapping ?? DEFAULT_TONE_MAPPING,
+    exposure: options.exposure ?? DEFAULT_EXPOSURE,
+    gamma: options.gamma ?? DEFAULT_GAMMA,
+  }
+}
+
+// Scales by 2^exposure, applies the operator per channel, then gamma-encodes into 8 bits
+export function toneMap(image: FloatImage, settings: ToneMappingSettings): RGBAImage {
+  const result = createRGBAImage(image.width, image.height)
+  const operator = OPERATORS[settings.operator]
+  const scale = Math.pow(2, settings.exposure)
+  const inverseGamma = 1 / settings.gamma
+  const pixels = image.width * image.height
+
+  for (let i = 0; i < pixels; i++) {
+    for (let c = 0; c < 3; c++) {
+      const mapped = operator(Math.max(0, image.data[i * 4 + c] * scale))
+      result.data[i * 4 + c] = Math.pow(Math.min(1, mapped), inverseGamma) * 255
+    }
+    result.data[i * 4 + 3] = 255
+  }
+
+  return result
+}
+
+export function decodeHDRSource(buffer: ArrayBuffer, options: ConversionOptions): RGBAImage {
+  return toneMap(decodeHDR(buffer), resolveToneMapping(options))
+}
+
+// sRGB decoding curve, so 8-bit sources can feed the float pipeline alongside real HDR input
+const SRGB_TO_LINEAR = Float32Array.from({ length: 256 }, (_, i) => {
+  const c = i / 255
+  return c <= 0.04045 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4)
+})
+
+export function linearizeImage(image: RGBAImage): FloatImage {
+  const result = createFloatImage(image.width, image.height)
+  for (let i = 0; i < image.data.length; i += 4) {
+    result.data[i] = SRGB_TO_LINEAR[image.data[i]]
+    result.data[i + 1] = SRGB_TO_LINEAR[image.data[i + 1]]
+    result.data[i + 2] = SRGB_TO_LINEAR[image.data[i + 2]]
+    result.data[i + 3] = 1
+  }
+  return result
+}
+
+const halfScratch = new Float32Array(1)
+const halfScratchBits = new Uint32Array(halfScratch.buffer)
+
+// IEEE 754 binary32 -> binary16 with round-to-nearest-even; overflow saturates to infinity
+export function floatToHalf(value: number): number {
+  halfScratch[0] = value
+  const bits = halfScratchBits[0]
+  const sign = (bits >>> 16) & 0x8000
+  const exponent = (bits >>> 23) & 0xff
+  const mantissa = bits & 0x7fffff
+
+  if (exponent === 0xff) {
+    return sign | 0x7c00 | (mantissa ? 0x200 : 0)
+  }
+  const halfExponent = exponent - 127 + 15
+  if (halfExponent >= 0x1f) {
+    return sign | 0x7c00
+  }
+  if (halfExponent <= 0) {
+    if (halfExponent < -10) {
+      return sign
+    }
+    // Subnormal: shift the implicit leading one into the mantissa
+    const shift = 14 - halfExponent
+    const full = mantissa | 0x800000
+    let half = full >>> shift
+    const remainder = full & ((1 << shift) - 1)
+    const halfway = 1 << (shift - 1)
+    if (remainder > halfway || (remainder === halfway && half & 1)) half++
+    return sign | half
+  }
+
+  let half = (halfExponent << 10) | (mantissa >>> 13)
+  const remainder = mantissa & 0x1fff
+  if (remainder > 0x1000 || (remainder === 0x1000 && half & 1)) half++
+  return sign | half
+}
+
+// Per-channel run-length encoding of one RGBE scanline ("new" RLE). Runs shorter than 4 stay literal.
+function writeRadianceChannel(values: Uint8Array, out: Uint8Array, offset: number): number {
+  const width = values.length
+  let x = 0
+
+  while (x < width) {
+    let runStart = x
+    let runLength = 0
+    while (runStart < width) {
+      runLength = 1
+      while (runStart + runLength < width && runLength < 127 && values[runStart + runLength] === values[runStart]) {
+        runLength++
+      }
+      if (runLength >= 4) break
+      runStart += runLength
+    }
+
+    while (x < runStart) {
+      const count = Math.min(128, runStart - x)
+      out[offset++] = count
+      out.set(values.subarray(x, x + count), offset)
+      offset += count
+      x += count
+    }
+    if (runStart < width) {
+      out[offset++] = 128 + runLength
+      out[offset++] = values[runStart]
+      x = runStart + runLength
+    }
+  }
+
+  return offset
+}
+
+export function encodeRadiance(image: FloatImage): Uint8Array {
+  const { width, height, data } = image
+  const header = new TextEncoder().encode(`#?RADIANCE\nFORMAT=32-bit_rle_rgbe\n\n-Y ${height} +X ${width}\n`)
+  const useRLE = width >= 8 && width < 0x8000
+  // Worst case for RLE is one extra count byte per 128 literals per channel
+  const rowBytes = useRLE ? 4 + width * 4 + Math.ceil(width / 128) * 4 : width * 4
+  const out = new Uint8Array(header.length + rowBytes * height)
+  out.set(header)
+  let offset = header.length
+
+  const channels = [new Uint8Array(width), new Uint8Array(width), new Uint8Array(width), new Uint8Array(width)]
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const idx = (y * width + x) * 4
+      const r = data[idx]
+      const g = data[idx + 1]
+      const b = data[idx + 2]
+      const max = Math.max(r, g, b)
+      if (max < 1e-32) {
+        channels[0][x] = channels[1][x] = channels[2][x] = channels[3][x] = 0
+      } else {
+        const exponent = Math.ceil(Math.log2(max) + 1e-9)
+        const scale = Math.pow(2, 8 - exponent)
+        channels[0][x] = Math.min(255, r * scale)
+        channels[1][x] = Math.min(255, g * scale)
+        channels[2][x] = Math.min(255, b * scale)
+        channels[3][x] = exponent + 128
+      }
+    }
+
+    if (useRLE) {
+      out.set([2, 2, width >> 8, width & 0xff], offset)
+      offset += 4
+      for (const channel of channels) {
+        offset = writeRadianceChannel(channel, out, offset)
+      }
+    } else {
+      for (let x = 0; x < width; x++) {
+        for (let c = 0; c < 4; c++) out[offset++] = channels[c][x]
+      }
+    }
+  }
+
+  return out.subarray(0, offset)
+}
+
+// Uncompressed scanline OpenEXR with half-float B, G, R channels (channels are stored alphabetically)
+export function encodeOpenEXR(image: FloatImage): Uint8Array {
+  const { width, height, data } = image
+  const encoder = new TextEncoder()
+  const parts: number[] = []
+  const bytes = (...values: number[]) => parts.push(...values)
+  const int32 = (value: number) => bytes(value & 0xff, (value >> 8) & 0xff, (value >> 16) & 0xff, (value >>> 24) & 0xff)
+  const float32 = (value: number) => {
+    const view = new DataView(new ArrayBuffer(4))
+    view.setFloat32(0, value, true)
+    bytes(...new Uint8Array(view.buffer))
+  }
+  const text = (value: string) => bytes(...encoder.encode(value), 0)
+  const attribute = (name: string, type: string, size: number, write: () => void) => {
+    text(name)
+    text(type)
+    int32(size)
+    write()
+  }
+  const box = () => {
+    int32(0)
+    int32(0)
+    int32(width - 1)
+    int32(height - 1)
+  }
+
+  int32(20000630) // magic number 76 2f 31 01
+  int32(2) // version 2, single-part scanline file
+  attribute("channels", "chlist", 3 * 18 + 1, () => {
+    for (const name of ["B", "G", "R"]) {
+      text(name)
+      int32(1) // HALF
+      bytes(0, 0, 0, 0) // pLinear + reserved
+      int32(1)
+      int32(1)
+    }
+    bytes(0)
+  })
+  attribute("compression", "compression", 1, () => bytes(0))
+  attribute("dataWindow", "box2i", 16, box)
+  attribute("displayWindow", "box2i", 16, box)
+  attribute("lineOrder", "lineOrder", 1, () => bytes(0))
+  attribute("pixelAspectRatio", "float", 4, () => float32(1))
+  attribute("screenWindowCenter", "v2f", 8, () => {
+    float32(0)
+    float32(0)
+  })
+  attribute("screenWindowWidth", "float", 4, () => float32(1))
+  bytes(0)
+
+  const header = Uint8Array.from(parts)
+  const rowDataBytes = width * 3 * 2
+  const chunkBytes = 8 + rowDataBytes
+  const tableStart = header.length
+  const chunksStart = tableStart + height * 8
+  const out = new Uint8Array(chunksStart + height * chunkBytes)
+  const view = new DataView(out.buffer)
+  out.set(header)
+
+  for (let y = 0; y < height; y++) {
+    const chunk = chunksStart + y * chunkBytes
+    view.setBigUint64(tableStart + y * 8, BigInt(chunk), true)
+    view.setInt32(chunk, y, true)
+    view.setInt32(chunk + 4, rowDataBytes, true)
+    for (let c = 0; c < 3; c++) {
+      // B, G, R planes from the RGBA source
+      const channel = 2 - c
+      const planeStart = chunk + 8 + c * width * 2
+      for (let x = 0; x < width; x++) {
+        view.setUint16(planeStart + x * 2, floatToHalf(data[(y * width + x) * 4 + channel]), true)
+      }
+    }
+  }
+
+  return out
+}
@@ -0,0 +1,48 @@
+// Hotspots placed after a conversion are written into its ZIP in place, so the tiles are not generated again.
+// Kept apart from hotspots.ts so the face worker, which builds configs through tiles.ts, does not load JSZip.
+import JSZip from "jszip"
+import { z } from "zod"
+import { hasHotspots, hotspotsRecord, type HotspotOptions } from "./hotspots"
+import { MARZIPANO_DATA_FILE, marzipanoDataScript, marzipanoHotspots, parseMarzipanoDataScript } from "./marzipano"
+import { formatOptionsError, infoHotspotSchema, linkHotspotSchema, type ConversionOptions } from "./options"
+import { pannellumHotSpots } from "./pannellum"
+
+const hotspotsSchema = z.object({
+  infoHotspots: z.array(infoHotspotSchema).max(200).default([]),
+  linkHotspots: z.array(linkHotspotSchema).max(200).default([]),
+})
+
+// Replaces the hotspots in config.json, and in data.js when the ZIP is a Marzipano project
+export async function writeHotspots(archive: Blob, hotspots: HotspotOptions): Promise<Blob> {
+  const parsed = hotspotsSchema.safeParse(hotspots)
+  if (!parsed.success) {
+    throw new Error(`Invalid hotspots: ${formatOptionsError(parsed.error)}`)
+  }
+
+  const zip = await JSZip.loadAsync(archive)
+  const configFile = zip.file("config.json")
+  if (!configFile) {
+    throw new Error("config.json not found in the ZIP")
+  }
+
+  const config = JSON.parse(await configFile.async("string"))
+  if (!config.settings?.requested) {
+    throw new Error("config.json does not describe a tile pyramid")
+  }
+  const options: ConversionOptions = { ...config.settings.requested, ...parsed.data }
+  config.settings.requested = options
+  config.hotspots = hotspotsRecord(options)
+  if (config.type === "multires") {
+    config.hotSpots = hasHotspots(options) ? pannellumHotSpots(options) : undefined
+  }
+  zip.file("config.json", JSON.stringify(config, null, 2))
+
+  const dataFile = zip.file(MARZIPANO_DATA_FILE)
+  if (dataFile) {
+    const data = parseMarzipanoDataScript(await dataFile.async("string"))
+    Object.assign(data.scenes[0], marzipanoHotspots(options))
+    zip.file(MARZIPANO_DATA_FILE, marzipanoDataScript(data))
+  }
+
+  return zip.generateAsync({ type: "blob" })
+}
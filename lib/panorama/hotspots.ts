@@ -0,0 +1,23 @@
+// Info and link hotspots: the options carry them in degrees on the output cube, and each viewer config gets them
+// in its own units (see marzipanoHotspots and pannellumHotSpots).
+import type { ConversionOptions } from "./options"
+
+export type HotspotOptions = Pick<ConversionOptions, "infoHotspots" | "linkHotspots">
+
+export function hasHotspots(options: HotspotOptions): boolean {
+  return !!options.infoHotspots?.length || !!options.linkHotspots?.length
+}
+
+// Written into config.json for viewers that read neither data.js nor Pannellum's hotSpots
+export function hotspotsRecord(options: HotspotOptions) {
+  if (!hasHotspots(options)) {
+    return undefined
+  }
+  return {
+    coordinates:
+      "Degrees on the output cube: yaw 0 / pitch 0 is the centre of the front face, yaw grows to the right and " +
+      "pitch upwards. Link rotations are clockwise degrees.",
+    infoHotspots: options.infoHotspots ?? [],
+    linkHotspots: (options.linkHotspots ?? []).map((hotspot) => ({ ...hotspot, rotation: hotspot.rotation ?? 0 })),
+  }
+}
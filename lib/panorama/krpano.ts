@@ -0,0 +1,40 @@
+// krpano multires output. The faces are the same as in the Marzipano pyramid (krpano's sides l, f, r, b, u, d
+// share their letters and orientation); only the tile layout differs: %l/%s/%v/%h, a directory per level, then
+// per face and row, with levels counted from 1 at the smallest and rows and columns from 1.
+import type { TileEncoding } from "./formats"
+import type { CubemapTile, TileConfig } from "./tiles"
+
+export const KRPANO_TOUR_FILE = "tour.xml"
+export const KRPANO_TILES_DIR = "pano.tiles"
+
+export function krpanoTileUrl(encoding: Pick<TileEncoding, "extension">): string {
+  return `${KRPANO_TILES_DIR}/%l/%s/%v/%h.${encoding.extension}`
+}
+
+// Tile configs are ordered smallest first, so level numbers are the zoom index plus one
+export function krpanoTilePath(tile: Pick<CubemapTile, "z" | "face" | "y" | "x">): string {
+  return `${KRPANO_TILES_DIR}/${tile.z + 1}/${tile.face}/${tile.y + 1}/${tile.x + 1}`
+}
+
+// multires="tilesize,size1,size2,..." lists every level smallest first; levels no larger than the tile size
+// are a single tile
+export function krpanoMultires(tileConfigs: TileConfig[]): string {
+  return [tileConfigs[tileConfigs.length - 1].tileSize, ...tileConfigs.map((config) => config.size)].join(",")
+}
+
+// A minimal tour that shows the pyramid straight away: a grid preview while the first tiles load, then the
+// cube. hlookat 0 faces the front face.
+export function createKrpanoTourXml(tileConfigs: TileConfig[], encoding: TileEncoding): string {
+  return [
+    '<krpano version="1.21" title="Panorama">',
+    "  <!-- Generated by panorama-converter -->",
+    '  <view hlookat="0" vlookat="0" fovtype="MFOV" fov="100" fovmin="30" fovmax="140" maxpixelzoom="2.0"',
+    '        limitview="auto" />',
+    '  <preview type="grid(cube,16,16,512,0xCCCCCC,0xFFFFFF,0x999999);" />',
+    "  <image>",
+    `    <cube url="${krpanoTileUrl(encoding)}" multires="${krpanoMultires(tileConfigs)}" />`,
+    "  </image>",
+    "</krpano>",
+    "",
+  ].join("\n")
+}
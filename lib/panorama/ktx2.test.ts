@@ -0,0 +1,35 @@
+import { describe, expect, it } from "vitest"
+import { encodeKTX2Cubemap } from "./ktx2"
+
+function level(size: number) {
+  return { size, faces: Array.from({ length: 6 }, () => new Uint16Array(size * size * 4)) }
+}
+
+describe("encodeKTX2Cubemap", () => {
+  const file = encodeKTX2Cubemap([level(4), level(2), level(1)], { KTXorientation: "rd" })
+  const view = new DataView(file.buffer, file.byteOffset, file.byteLength)
+
+  it("starts with the KTX 2.0 identifier", () => {
+    expect(Array.from(file.subarray(0, 12))).toEqual([
+      0xab, 0x4b, 0x54, 0x58, 0x20, 0x32, 0x30, 0xbb, 0x0d, 0x0a, 0x1a, 0x0a,
+    ])
+  })
+
+  it("describes an RGBA16F cube map with its mip chain", () => {
+    const header = Array.from({ length: 9 }, (_, i) => view.getUint32(12 + i * 4, true))
+    // vkFormat, typeSize, width, height, depth, layerCount, faceCount, levelCount, supercompression
+    expect(header).toEqual([97, 2, 4, 4, 0, 0, 6, 3, 0])
+  })
+
+  it("stores the smallest level first", () => {
+    const levels = [0, 1, 2].map((i) => ({
+      offset: Number(view.getBigUint64(80 + i * 24, true)),
+      length: Number(view.getBigUint64(88 + i * 24, true)),
+    }))
+    expect(levels.map((l) => l.length)).toEqual([4 * 4 * 8 * 6, 2 * 2 * 8 * 6, 8 * 6])
+    expect(levels[2].offset).toBeLessThan(levels[1].offset)
+    expect(levels[1].offset).toBeLessThan(levels[0].offset)
+    expect(levels[0].offset + levels[0].length).toBe(file.length)
+    levels.forEach((l) => expect(l.offset % 8).toBe(0))
+  })
+})
@@ -0,0 +1,113 @@
+// Minimal KTX 2.0 writer for uncompressed RGBA16F cube maps with a mip chain.
+// See https://registry.khronos.org/KTX/specs/2.0/ktxspec.v2.html for the container layout.
+
+export interface KTX2CubemapLevel {
+  size: number
+  // Six RGBA half-float images in +X, -X, +Y, -Y, +Z, -Z order, top row first
+  faces: Uint16Array[]
+}
+
+const IDENTIFIER = [0xab, 0x4b, 0x54, 0x58, 0x20, 0x32, 0x30, 0xbb, 0x0d, 0x0a, 0x1a, 0x0a]
+const VK_FORMAT_R16G16B16A16_SFLOAT = 97
+const BYTES_PER_TEXEL = 8
+
+const HEADER_BYTES = 12 + 9 * 4 + 4 * 4 + 2 * 8
+const LEVEL_INDEX_BYTES = 3 * 8
+
+function align(offset: number, alignment: number): number {
+  return Math.ceil(offset / alignment) * alignment
+}
+
+// Basic data format descriptor for linear RGBA16F: four signed float samples of 16 bits each
+function dataFormatDescriptor(): Uint8Array {
+  const channelIds = [0, 1, 2, 15] // R, G, B, A
+  const blockBytes = 24 + channelIds.length * 16
+  const dfd = new Uint8Array(4 + blockBytes)
+  const view = new DataView(dfd.buffer)
+
+  view.setUint32(0, dfd.length, true)
+  view.setUint32(4, 0, true) // vendorId 0 (Khronos), descriptorType 0 (basic)
+  view.setUint16(8, 2, true) // versionNumber
+  view.setUint16(10, blockBytes, true)
+  dfd.set([1, 1, 1, 0], 12) // RGBSDA colour model, BT.709 primaries, linear transfer, straight alpha
+  dfd.set([0, 0, 0, 0], 16) // 1x1x1x1 texel block
+  dfd.set([BYTES_PER_TEXEL, 0, 0, 0, 0, 0, 0, 0], 20)
+
+  channelIds.forEach((channelId, i) => {
+    const sample = 28 + i * 16
+    view.setUint16(sample, i * 16, true) // bitOffset
+    dfd[sample + 2] = 15 // bitLength - 1
+    dfd[sample + 3] = channelId | 0x80 | 0x40 // float | signed qualifiers
+    view.setUint32(sample + 8, 0xbf800000, true) // sampleLower = -1.0f
+    view.setUint32(sample + 12, 0x3f800000, true) // sampleUpper = 1.0f
+  })
+
+  return dfd
+}
+
+function keyValueData(entries: Record<string, string>): Uint8Array {
+  const encoder = new TextEncoder()
+  const chunks: Uint8Array[] = []
+  for (const [key, value] of Object.entries(entries).sort(([a], [b]) => (a < b ? -1 : 1))) {
+    const pair = encoder.encode(`${key}\0${value}\0`)
+    const chunk = new Uint8Array(align(4 + pair.length, 4))
+    new DataView(chunk.buffer).setUint32(0, pair.length, true)
+    chunk.set(pair, 4)
+    chunks.push(chunk)
+  }
+
+  const out = new Uint8Array(chunks.reduce((sum, chunk) => sum + chunk.length, 0))
+  let offset = 0
+  for (const chunk of chunks) {
+    out.set(chunk, offset)
+    offset += chunk.length
+  }
+  return out
+}
+
+// Levels are passed largest first; the file stores their data smallest first as the spec requires
+export function encodeKTX2Cubemap(levels: KTX2CubemapLevel[], keyValues: Record<string, string> = {}): Uint8Array {
+  const dfd = dataFormatDescriptor()
+  const kvd = keyValueData(keyValues)
+
+  const dfdOffset = HEADER_BYTES + levels.length * LEVEL_INDEX_BYTES
+  const kvdOffset = dfdOffset + dfd.length
+  let dataOffset = align(kvdOffset + kvd.length, BYTES_PER_TEXEL)
+
+  const levelOffsets: number[] = []
+  const levelLengths = levels.map((level) => level.size * level.size * BYTES_PER_TEXEL * 6)
+  for (let i = levels.length - 1; i >= 0; i--) {
+    dataOffset = align(dataOffset, BYTES_PER_TEXEL)
+    levelOffsets[i] = dataOffset
+    dataOffset += levelLengths[i]
+  }
+
+  const out = new Uint8Array(dataOffset)
+  const view = new DataView(out.buffer)
+  out.set(IDENTIFIER)
+
+  const header = [VK_FORMAT_R16G16B16A16_SFLOAT, 2, levels[0].size, levels[0].size, 0, 0, 6, levels.length, 0]
+  header.forEach((value, i) => view.setUint32(12 + i * 4, value, true))
+  view.setUint32(48, dfdOffset, true)
+  view.setUint32(52, dfd.length, true)
+  view.setUint32(56, kvd.length > 0 ? kvdOffset : 0, true)
+  view.setUint32(60, kvd.length, true)
+  // No supercompression global data: sgdByteOffset and sgdByteLength stay zero
+
+  levels.forEach((level, i) => {
+    const entry = HEADER_BYTES + i * LEVEL_INDEX_BYTES
+    view.setBigUint64(entry, BigInt(levelOffsets[i]), true)
+    view.setBigUint64(entry + 8, BigInt(levelLengths[i]), true)
+    view.setBigUint64(entry + 16, BigInt(levelLengths[i]), true)
+
+    let offset = levelOffsets[i]
+    for (const face of level.faces) {
+      out.set(new Uint8Array(face.buffer, face.byteOffset, face.byteLength), offset)
+      offset += face.byteLength
+    }
+  })
+
+  out.set(dfd, dfdOffset)
+  out.set(kvd, kvdOffset)
+  return out
+}
@@ -0,0 +1,106 @@
+// Single-image cubemap layouts: where each face sits in the grid and how it is turned relative to the
+// orientation generateCubeFace produces.
+import type { CubeLayout } from "./options"
+import { FACE_NAMES, createRGBAImage, type FaceName, type RGBAImage } from "./projection"
+
+// Clockwise rotation of the stored face
+export type FaceRotation = 0 | 90 | 180 | 270
+
+export interface LayoutCell {
+  column: number
+  row: number
+  rotation: FaceRotation
+}
+
+export interface CubeLayoutGeometry {
+  label: string
+  columns: number
+  rows: number
+  cells: Record<FaceName, LayoutCell>
+}
+
+function cell(column: number, row: number, rotation: FaceRotation = 0): LayoutCell {
+  return { column, row, rotation }
+}
+
+// The crosses unfold around the front face, so every shared edge lines up. In the vertical cross the
+// back face hangs below the down face and has to be turned upside down to meet it. The 3×2 grid is YouTube's
+// (as in ffmpeg's v360 "eac"): left, front and right upright on top, then down, back and up turned on their
+// sides so the bottom row runs on as one band around the back.
+export const CUBE_LAYOUT_GEOMETRY: Record<CubeLayout, CubeLayoutGeometry> = {
+  "horizontal-cross": {
+    label: "Horizontal cross (4×3)",
+    columns: 4,
+    rows: 3,
+    cells: { r: cell(2, 1), l: cell(0, 1), u: cell(1, 0), d: cell(1, 2), f: cell(1, 1), b: cell(3, 1) },
+  },
+  "vertical-cross": {
+    label: "Vertical cross (3×4)",
+    columns: 3,
+    rows: 4,
+    cells: { r: cell(2, 1), l: cell(0, 1), u: cell(1, 0), d: cell(1, 2), f: cell(1, 1), b: cell(1, 3, 180) },
+  },
+  strip: {
+    label: "Strip (6×1)",
+    columns: 6,
+    rows: 1,
+    cells: { r: cell(0, 0), l: cell(1, 0), u: cell(2, 0), d: cell(3, 0), f: cell(4, 0), b: cell(5, 0) },
+  },
+  "grid-3x2": {
+    label: "YouTube 3×2",
+    columns: 3,
+    rows: 2,
+    cells: { l: cell(0, 0), f: cell(1, 0), r: cell(2, 0), d: cell(0, 1, 270), b: cell(1, 1, 90), u: cell(2, 1, 270) },
+  },
+}
+
+// Layouts are told apart by aspect ratio alone; a 1% tolerance absorbs odd pixel counts
+export function detectCubeLayout(width: number, height: number): CubeLayout | null {
+  for (const [layout, geometry] of Object.entries(CUBE_LAYOUT_GEOMETRY) as [CubeLayout, CubeLayoutGeometry][]) {
+    if (Math.abs((width * geometry.rows) / (height * geometry.columns) - 1) < 0.01) {
+      return layout
+    }
+  }
+  return null
+}
+
+export function layoutFaceSize(width: number, height: number, layout: CubeLayout): number {
+  const { columns, rows } = CUBE_LAYOUT_GEOMETRY[layout]
+  return Math.floor(Math.min(width / columns, height / rows))
+}
+
+// Where pixel (x, y) of the upright face ends up once the face is rotated clockwise
+export function rotatedPixel(x: number, y: number, size: number, rotation: FaceRotation): [number, number] {
+  switch (rotation) {
+    case 0:
+      return [x, y]
+    case 90:
+      return [size - 1 - y, x]
+    case 180:
+      return [size - 1 - x, size - 1 - y]
+    case 270:
+      return [y, size - 1 - x]
+  }
+}
+
+// Cuts the six faces out of a layout image, upright and in r,l,u,d,f,b order
+export function extractLayoutFaces(image: RGBAImage, layout: CubeLayout): RGBAImage[] {
+  const geometry = CUBE_LAYOUT_GEOMETRY[layout]
+  const size = layoutFaceSize(image.width, image.height, layout)
+  if (size < 1) {
+    throw new Error(`A ${image.width}x${image.height} image is too small for a ${geometry.label} layout`)
+  }
+
+  return FACE_NAMES.map((face) => {
+    const { column, row, rotation } = geometry.cells[face]
+    const faceImage = createRGBAImage(size, size)
+    for (let y = 0; y < size; y++) {
+      for (let x = 0; x < size; x++) {
+        const [sx, sy] = rotatedPixel(x, y, size, rotation)
+        const src = ((row * size + sy) * image.width + column * size + sx) * 4
+        faceImage.data.set(image.data.subarray(src, src + 4), (y * size + x) * 4)
+      }
+    }
+    return faceImage
+  })
+}
@@ -0,0 +1,29 @@
+import { describe, expect, it } from "vitest"
+import { marzipanoSceneName, marzipanoSceneNameFromUrl } from "./marzipano"
+
+describe("marzipanoSceneName", () => {
+  it("drops the extension", () => {
+    expect(marzipanoSceneName("living room.jpg")).toBe("living room")
+    expect(marzipanoSceneName(".jpg")).toBe("panorama")
+  })
+
+  it("keeps a bare percent sign in local file names", () => {
+    expect(marzipanoSceneName("pano 50%.jpg")).toBe("pano 50%")
+    expect(marzipanoSceneName("100%.jpg")).toBe("100%")
+    expect(marzipanoSceneName("a%20b.jpg")).toBe("a%20b")
+  })
+})
+
+describe("marzipanoSceneNameFromUrl", () => {
+  it("decodes the last path segment", () => {
+    expect(marzipanoSceneNameFromUrl("https://example.com/tours/living%20room.jpg?v=2")).toBe("living room")
+  })
+
+  it("falls back to the raw segment on a bare percent sign", () => {
+    expect(marzipanoSceneNameFromUrl("https://example.com/50%.jpg")).toBe("50%")
+  })
+
+  it("names a URL without a file", () => {
+    expect(marzipanoSceneNameFromUrl("https://example.com/")).toBe("panorama")
+  })
+})
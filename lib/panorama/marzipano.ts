@@ -0,0 +1,228 @@
+// Marzipano project export: data.js in the shape the Marzipano Tool writes (APP_DATA with one scene), an
+// index.html that shows it with a local copy of the viewer, and the preview.jpg strip that the fallback level
+// is served from. Unzipped and served over HTTP, the tiles are a working tour, with the hotspots from the
+// options shown the way the Marzipano Tool shows them.
+import { resolveTileEncoding, type TileEncoding } from "./formats"
+import { DEFAULT_CUBE_PROJECTION, DEFAULT_TILE_TARGET, type ConversionOptions } from "./options"
+import { createRGBAImage, type FaceName, type RGBAImage } from "./projection"
+import type { TileConfig } from "./tiles"
+
+export const MARZIPANO_DATA_FILE = "data.js"
+export const MARZIPANO_INDEX_FILE = "index.html"
+export const MARZIPANO_PREVIEW_FILE = "preview.jpg"
+export const MARZIPANO_SCRIPT_FILE = "vendor/marzipano.js"
+
+// The preview is always a JPEG, whatever the tile format, since that is what the Marzipano Tool writes
+export const MARZIPANO_PREVIEW_ENCODING: TileEncoding = resolveTileEncoding({ tileFormat: "jpeg" })
+
+// Marzipano's default cubeMapPreviewFaceOrder, top to bottom
+const PREVIEW_FACE_ORDER: FaceName[] = ["b", "d", "f", "l", "r", "u"]
+
+const RADIANS = Math.PI / 180
+
+// Marzipano cannot show EAC faces, so a project is only written for standard faces in Marzipano's layout
+export function hasMarzipanoProject(options: ConversionOptions): boolean {
+  return (
+    (options.tileTarget ?? DEFAULT_TILE_TARGET) === "marzipano" &&
+    (options.cubeProjection ?? DEFAULT_CUBE_PROJECTION) === "standard"
+  )
+}
+
+// Marzipano serves level 0 from the preview strip, so there is one only when level 0 is the fallback
+export function hasMarzipanoPreview(tileConfigs: TileConfig[]): boolean {
+  return !!tileConfigs[0]?.fallbackOnly
+}
+
+function withoutExtension(name: string): string {
+  return name.replace(/\.[^.]*$/, "") || "panorama"
+}
+
+// Scene name from a local file name, without its directory and extension. File names are taken as they are:
+// "50%.jpg" is not percent-encoded.
+export function marzipanoSceneName(fileName: string): string {
+  return withoutExtension(fileName.split(/[/\\]/).filter(Boolean).pop() ?? "")
+}
+
+// Scene name from the last segment of a URL's path, percent-decoded unless it holds a bare "%"
+export function marzipanoSceneNameFromUrl(url: string): string {
+  const base = new URL(url).pathname.split("/").filter(Boolean).pop() ?? ""
+  let name = base
+  try {
+    name = decodeURIComponent(base)
+  } catch {
+    // Not valid percent-encoding, so keep the raw segment
+  }
+  return withoutExtension(name)
+}
+
+// Scene ids follow the Marzipano Tool: index, then the name in lower-case kebab case
+function sceneId(index: number, name: string): string {
+  const slug = name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "")
+  return `${index}-${slug || "panorama"}`
+}
+
+// Marzipano measures in radians and its pitch grows downwards; rotation stays clockwise
+export function marzipanoHotspots(options: ConversionOptions) {
+  return {
+    linkHotspots: (options.linkHotspots ?? []).map((hotspot) => ({
+      yaw: hotspot.yaw * RADIANS,
+      pitch: -hotspot.pitch * RADIANS,
+      rotation: (hotspot.rotation ?? 0) * RADIANS,
+      target: hotspot.target,
+    })),
+    infoHotspots: (options.infoHotspots ?? []).map((hotspot) => ({
+      yaw: hotspot.yaw * RADIANS,
+      pitch: -hotspot.pitch * RADIANS,
+      title: hotspot.title,
+      text: hotspot.text,
+      ...(hotspot.image && { image: hotspot.image }),
+    })),
+  }
+}
+
+export function createMarzipanoData(tileConfigs: TileConfig[], sceneName: string, options: ConversionOptions = {}) {
+  return {
+    scenes: [
+      {
+        id: sceneId(0, sceneName),
+        name: sceneName,
+        levels: tileConfigs.map(({ tileSize, size, fallbackOnly }) => ({
+          tileSize,
+          size,
+          ...(fallbackOnly && { fallbackOnly }),
+        })),
+        faceSize: tileConfigs[tileConfigs.length - 1].size,
+        // The faces are already oriented, so the tour opens on the front face
+        initialViewParameters: { yaw: 0, pitch: 0, fov: Math.PI / 2 },
+        ...marzipanoHotspots(options),
+      },
+    ],
+    name: sceneName,
+    settings: {
+      mouseViewMode: "drag",
+      autorotateEnabled: false,
+      fullscreenButton: false,
+      viewControlButtons: false,
+    },
+  }
+}
+
+export type MarzipanoData = ReturnType<typeof createMarzipanoData>
+
+const DATA_SCRIPT_PREFIX = "var APP_DATA = "
+
+export function marzipanoDataScript(data: MarzipanoData): string {
+  return `${DATA_SCRIPT_PREFIX}${JSON.stringify(data, null, 2)};\n`
+}
+
+// Reads back a data.js written by marzipanoDataScript
+export function parseMarzipanoDataScript(script: string): MarzipanoData {
+  const json = script.trim()
+  if (!json.startsWith(DATA_SCRIPT_PREFIX) || !json.endsWith(";")) {
+    throw new Error(`${MARZIPANO_DATA_FILE} does not hold an APP_DATA object`)
+  }
+  return JSON.parse(json.slice(DATA_SCRIPT_PREFIX.length, -1))
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;")
+}
+
+// The tile URL and preview are fixed by the export layout; everything else is read from data.js
+export function createMarzipanoIndexHtml(
+  data: MarzipanoData,
+  tileConfigs: TileConfig[],
+  encoding: TileEncoding,
+): string {
+  const tileUrl = `{z}/{f}/{y}/{x}.${encoding.extension}`
+  const sourceOptions = hasMarzipanoPreview(tileConfigs) ? `{ cubeMapPreviewUrl: "${MARZIPANO_PREVIEW_FILE}" }` : "{}"
+  return `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1, maximum-scale=1, user-scalable=no">
+  <title>${escapeHtml(data.name)}</title>
+  <style>
+    html, body, #pano { width: 100%; height: 100%; margin: 0; overflow: hidden; background: #000; }
+    .link-hotspot, .info-hotspot { font: 14px sans-serif; color: #fff; cursor: pointer; }
+    .link-hotspot {
+      display: block; width: 40px; height: 40px; margin: -20px 0 0 -20px; border-radius: 50%;
+      background: rgba(0, 0, 0, 0.6); text-align: center; line-height: 40px; font-size: 24px; text-decoration: none;
+    }
+    .info-hotspot { margin: -14px 0 0 -14px; max-width: 280px; border-radius: 14px; background: rgba(0, 0, 0, 0.75); }
+    .info-hotspot-title { padding: 0 12px; line-height: 28px; white-space: nowrap; }
+    .info-hotspot-body { display: none; padding: 0 12px 12px; }
+    .info-hotspot.open .info-hotspot-body { display: block; }
+    .info-hotspot-body img { display: block; max-width: 100%; margin-bottom: 8px; }
+    .info-hotspot-body p { margin: 0; white-space: pre-wrap; }
+  </style>
+</head>
+<body>
+  <div id="pano"></div>
+  <!-- Browsers do not load WebGL textures into pages opened from file://, so serve this folder over HTTP -->
+  <script src="${MARZIPANO_SCRIPT_FILE}"></script>
+  <script src="${MARZIPANO_DATA_FILE}"></script>
+  <script>
+    var data = APP_DATA.scenes[0];
+    var viewer = new Marzipano.Viewer(document.getElementById("pano"), {
+      controls: { mouseViewMode: APP_DATA.settings.mouseViewMode },
+    });
+    var source = Marzipano.ImageUrlSource.fromString("${tileUrl}", ${sourceOptions});
+    var geometry = new Marzipano.CubeGeometry(data.levels);
+    var limiter = Marzipano.RectilinearView.limit.traditional(data.faceSize, Math.PI * 100 / 180, Math.PI * 120 / 180);
+    var view = new Marzipano.RectilinearView(data.initialViewParameters, limiter);
+    var scene = viewer.createScene({ source: source, geometry: geometry, view: view, pinFirstLevel: true });
+    // Text is set with textContent, so hotspot titles and descriptions are never read as HTML
+    data.infoHotspots.forEach(function (hotspot) {
+      var element = document.createElement("div");
+      element.className = "info-hotspot";
+      var title = document.createElement("div");
+      title.className = "info-hotspot-title";
+      title.textContent = "\u24d8 " + hotspot.title;
+      var body = document.createElement("div");
+      body.className = "info-hotspot-body";
+      if (hotspot.image) {
+        var image = document.createElement("img");
+        image.src = hotspot.image;
+        body.appendChild(image);
+      }
+      var text = document.createElement("p");
+      text.textContent = hotspot.text;
+      body.appendChild(text);
+      element.appendChild(title);
+      element.appendChild(body);
+      element.addEventListener("click", function () { element.classList.toggle("open"); });
+      scene.hotspotContainer().createHotspot(element, { yaw: hotspot.yaw, pitch: hotspot.pitch });
+    });
+    data.linkHotspots.forEach(function (hotspot) {
+      var element = document.createElement("a");
+      element.className = "link-hotspot";
+      element.href = hotspot.target;
+      element.title = hotspot.target;
+      element.textContent = "\u2191";
+      element.style.transform = "rotate(" + hotspot.rotation + "rad)";
+      scene.hotspotContainer().createHotspot(element, { yaw: hotspot.yaw, pitch: hotspot.pitch });
+    });
+    scene.switchTo();
+  </script>
+</body>
+</html>
+`
+}
+
+// Stacks the six fallback faces into the vertical strip Marzipano crops level 0 from
+export function createMarzipanoPreview(faces: Partial<Record<FaceName, RGBAImage>>): RGBAImage {
+  const size = faces.f?.width ?? 0
+  const strip = createRGBAImage(size, size * 6)
+  PREVIEW_FACE_ORDER.forEach((face, i) => {
+    const image = faces[face]
+    if (!image || image.width !== size || image.height !== size) {
+      throw new Error(`Missing the ${face} face of the Marzipano preview`)
+    }
+    strip.data.set(image.data, i * size * size * 4)
+  })
+  return strip
+}
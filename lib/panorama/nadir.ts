@@ -0,0 +1,260 @@
+// Hides the tripod under a patch centred on the nadir: a logo, a solid disc or a blur of the surrounding floor.
+// The patch is drawn onto the projected down face before it is split into tiles, and every smaller level is
+// downsampled from that face, so all zoom levels show it.
+//
+// The down face is the gnomonic projection of the floor, so a logo laid out linearly in face coordinates looks
+// like a flat sticker on the ground. Positions below are in those standard face coordinates (the tangent of
+// the angle from the face centre); EAC faces are converted first.
+import {
+  DEFAULT_NADIR_COLOR,
+  DEFAULT_NADIR_PATCH,
+  DEFAULT_NADIR_SIZE,
+  parseHexColor,
+  type ConversionOptions,
+} from "./options"
+import { FACE_NAMES, createRGBAImage, eacToFace, faceToEAC, type RGBAImage } from "./projection"
+import { downsampleImage } from "./resize"
+
+export const NADIR_FACE = FACE_NAMES.indexOf("d")
+
+// Angular bins around the patch rim that the blur fill is built from
+const RIM_BINS = 256
+
+function hasNadirPatch(options: ConversionOptions): boolean {
+  return (options.nadirPatch ?? DEFAULT_NADIR_PATCH) !== "none"
+}
+
+// Listed in config.json so a tour can, for example, place a matching hotspot over the patch
+export function nadirConfig(options: ConversionOptions) {
+  if (!hasNadirPatch(options)) {
+    return undefined
+  }
+  const patch = options.nadirPatch!
+  return {
+    patch,
+    size: options.nadirSize ?? DEFAULT_NADIR_SIZE,
+    ...(patch === "logo" && { rotation: options.nadirRotation ?? 0 }),
+    ...(patch === "disc" && { color: options.nadirColor ?? DEFAULT_NADIR_COLOR }),
+  }
+}
+
+// Where a patch pixel sits: face coordinates, distance from the nadir and the size of one stored pixel there
+interface PatchPixel {
+  index: number
+  cx: number
+  cy: number
+  radius: number
+  pixelSize: number
+}
+
+function* patchPixels(face: RGBAImage, extent: number, eac: boolean): Generator<PatchPixel> {
+  const size = face.width
+  // Stored pixel range covering [-extent, extent] in face coordinates
+  const t = Math.min(1, eac ? faceToEAC(extent) : extent)
+  const start = Math.max(0, Math.floor(((1 - t) / 2) * size))
+  const end = Math.min(size, Math.ceil(((1 + t) / 2) * size))
+  const toFace = (i: number) => {
+    const s = ((i + 0.5) / size) * 2 - 1
+    return eac ? eacToFace(s) : s
+  }
+
+  for (let y = start; y < end; y++) {
+    const cy = toFace(y)
+    for (let x = start; x < end; x++) {
+      const cx = toFace(x)
+      const radius = Math.hypot(cx, cy)
+      // EAC pixels cover more of the tangent plane away from the centre: (π / 4) * (1 + c²)
+      const pixelSize = (2 / size) * (eac ? (Math.PI / 4) * (1 + radius * radius) : 1)
+      yield { index: (y * size + x) * 4, cx, cy, radius, pixelSize }
+    }
+  }
+}
+
+// Fraction of a pixel inside the disc, feathered over `feather` face units so the rim is not jagged
+function coverage(pixel: PatchPixel, radius: number, feather: number): number {
+  return Math.max(0, Math.min(1, (radius - pixel.radius) / feather + 0.5))
+}
+
+function blend(data: Uint8ClampedArray, index: number, color: ArrayLike<number>, alpha: number): void {
+  for (let c = 0; c < 3; c++) {
+    data[index + c] = data[index + c] * (1 - alpha) + color[c] * alpha
+  }
+}
+
+function drawDisc(face: RGBAImage, radius: number, color: [number, number, number], eac: boolean): void {
+  for (const pixel of patchPixels(face, radius, eac)) {
+    const alpha = coverage(pixel, radius, pixel.pixelSize)
+    if (alpha > 0) {
+      blend(face.data, pixel.index, color, alpha)
+    }
+  }
+}
+
+// Nearest stored pixel at face coordinates (cx, cy), clamped to the face
+function facePixel(face: RGBAImage, cx: number, cy: number, eac: boolean): number {
+  const size = face.width
+  const toPixel = (c: number) => {
+    const t = eac ? faceToEAC(c) : c
+    return Math.max(0, Math.min(size - 1, Math.floor(((t + 1) / 2) * size)))
+  }
+  return (toPixel(cy) * size + toPixel(cx)) * 4
+}
+
+// Averages a band of floor just outside the patch into angular bins, then smooths the bins around the circle
+function rimColors(face: RGBAImage, radius: number, eac: boolean): Float32Array {
+  const rim = new Float32Array(RIM_BINS * 3)
+  const radii = [1.05, 1.1, 1.15, 1.2].map((scale) => radius * scale)
+  for (let bin = 0; bin < RIM_BINS; bin++) {
+    const angle = (bin / RIM_BINS) * 2 * Math.PI
+    for (const r of radii) {
+      const index = facePixel(face, r * Math.cos(angle), r * Math.sin(angle), eac)
+      for (let c = 0; c < 3; c++) {
+        rim[bin * 3 + c] += face.data[index + c] / radii.length
+      }
+    }
+  }
+
+  // Three circular box passes approximate a Gaussian
+  const window = RIM_BINS / 16
+  for (let pass = 0; pass < 3; pass++) {
+    const blurred = new Float32Array(rim.length)
+    for (let bin = 0; bin < RIM_BINS; bin++) {
+      for (let k = -window; k <= window; k++) {
+        const from = ((bin + k + RIM_BINS) % RIM_BINS) * 3
+        for (let c = 0; c < 3; c++) {
+          blurred[bin * 3 + c] += rim[from + c] / (2 * window + 1)
+        }
+      }
+    }
+    rim.set(blurred)
+  }
+  return rim
+}
+
+// Each pixel blends from the rim colour in its direction towards the average of the whole rim at the centre
+function drawBlur(face: RGBAImage, radius: number, eac: boolean): void {
+  const rim = rimColors(face, radius, eac)
+  const mean = [0, 0, 0]
+  for (let bin = 0; bin < RIM_BINS; bin++) {
+    for (let c = 0; c < 3; c++) {
+      mean[c] += rim[bin * 3 + c] / RIM_BINS
+    }
+  }
+
+  const color = [0, 0, 0]
+  for (const pixel of patchPixels(face, radius, eac)) {
+    const alpha = coverage(pixel, radius, Math.max(pixel.pixelSize, radius * 0.1))
+    if (alpha === 0) continue
+
+    const position = ((Math.atan2(pixel.cy, pixel.cx) / (2 * Math.PI) + 1) % 1) * RIM_BINS
+    const bin = Math.floor(position) % RIM_BINS
+    const next = (bin + 1) % RIM_BINS
+    const along = position - Math.floor(position)
+    const weight = Math.min(1, (pixel.radius / radius) ** 2)
+    for (let c = 0; c < 3; c++) {
+      const edge = rim[bin * 3 + c] * (1 - along) + rim[next * 3 + c] * along
+      color[c] = mean[c] * (1 - weight) + edge * weight
+    }
+    blend(face.data, pixel.index, color, alpha)
+  }
+}
+
+// Premultiplied copy of the logo, shrunk to about the patch's pixel size so it does not alias
+function prepareLogo(logo: RGBAImage, maxSide: number): RGBAImage {
+  const premultiplied = createRGBAImage(logo.width, logo.height)
+  for (let i = 0; i < logo.data.length; i += 4) {
+    const alpha = logo.data[i + 3] / 255
+    premultiplied.data[i] = logo.data[i] * alpha
+    premultiplied.data[i + 1] = logo.data[i + 1] * alpha
+    premultiplied.data[i + 2] = logo.data[i + 2] * alpha
+    premultiplied.data[i + 3] = logo.data[i + 3]
+  }
+
+  const scale = maxSide / Math.max(logo.width, logo.height)
+  if (scale >= 1) {
+    return premultiplied
+  }
+  const width = Math.max(1, Math.round(logo.width * scale))
+  const height = Math.max(1, Math.round(logo.height * scale))
+  return downsampleImage(premultiplied, width, height, "box")
+}
+
+// Bilinear sample of a premultiplied image at pixel coordinates, transparent outside it
+function sampleLogo(logo: RGBAImage, x: number, y: number, out: number[]): void {
+  out[0] = out[1] = out[2] = out[3] = 0
+  const fx = x - 0.5
+  const fy = y - 0.5
+  const x0 = Math.floor(fx)
+  const y0 = Math.floor(fy)
+  const dx = fx - x0
+  const dy = fy - y0
+
+  for (let j = 0; j < 2; j++) {
+    const py = y0 + j
+    if (py < 0 || py >= logo.height) continue
+    for (let i = 0; i < 2; i++) {
+      const px = x0 + i
+      if (px < 0 || px >= logo.width) continue
+      const weight = (i ? dx : 1 - dx) * (j ? dy : 1 - dy)
+      const index = (py * logo.width + px) * 4
+      for (let c = 0; c < 4; c++) {
+        out[c] += logo.data[index + c] * weight
+      }
+    }
+  }
+}
+
+// The logo is fitted inside the patch's square and turned clockwise by `rotation` degrees
+function drawLogo(face: RGBAImage, radius: number, logo: RGBAImage, rotation: number, eac: boolean): void {
+  // Face pixels per face unit at the nadir, where they are densest
+  const density = (face.width / 2) * (eac ? 4 / Math.PI : 1)
+  const prepared = prepareLogo(logo, Math.ceil(2 * radius * density))
+  const logoScale = Math.max(prepared.width, prepared.height) / (2 * radius)
+  const cos = Math.cos((rotation * Math.PI) / 180)
+  const sin = Math.sin((rotation * Math.PI) / 180)
+  const sample = [0, 0, 0, 0]
+
+  // The rotated square reaches out to its corners
+  for (const pixel of patchPixels(face, radius * Math.SQRT2, eac)) {
+    const x = (cos * pixel.cx + sin * pixel.cy) * logoScale + prepared.width / 2
+    const y = (-sin * pixel.cx + cos * pixel.cy) * logoScale + prepared.height / 2
+    sampleLogo(prepared, x, y, sample)
+    if (sample[3] === 0) continue
+
+    const keep = 1 - sample[3] / 255
+    for (let c = 0; c < 3; c++) {
+      face.data[pixel.index + c] = sample[c] + face.data[pixel.index + c] * keep
+    }
+  }
+}
+
+// Draws into `face`, which must be the down face. `logo` is only read by the "logo" patch.
+export function drawNadirPatch(face: RGBAImage, options: ConversionOptions, logo: RGBAImage | null = null): void {
+  const patch = options.nadirPatch ?? DEFAULT_NADIR_PATCH
+  const radius = Math.tan((((options.nadirSize ?? DEFAULT_NADIR_SIZE) / 2) * Math.PI) / 180)
+  const eac = options.cubeProjection === "eac"
+
+  if (patch === "disc") {
+    drawDisc(face, radius, parseHexColor(options.nadirColor ?? DEFAULT_NADIR_COLOR), eac)
+  } else if (patch === "blur") {
+    drawBlur(face, radius, eac)
+  } else if (patch === "logo") {
+    if (!logo) {
+      throw new Error("The logo nadir patch needs a logo image")
+    }
+    drawLogo(face, radius, logo, options.nadirRotation ?? 0, eac)
+  }
+}
+
+// Patches `image` when it is the down face and a patch is selected; every other face passes through
+export function patchNadir(
+  image: RGBAImage,
+  face: number,
+  options: ConversionOptions,
+  logo: RGBAImage | null = null,
+): RGBAImage {
+  if (face === NADIR_FACE && hasNadirPatch(options)) {
+    drawNadirPatch(image, options, logo)
+  }
+  return image
+}
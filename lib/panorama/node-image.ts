@@ -0,0 +1,45 @@
+// Node-side image decode/encode for the projection core. Uses sharp, so no browser globals are needed.
+import sharp from "sharp"
+import type { TileEncoding } from "./formats"
+import type { RGBAImage } from "./projection"
+
+export async function decodeImage(input: ArrayBuffer | Buffer): Promise<RGBAImage> {
+  const buffer = Buffer.isBuffer(input) ? input : Buffer.from(input)
+
+  try {
+    const { data, info } = await sharp(buffer).ensureAlpha().raw().toBuffer({ resolveWithObject: true })
+    const pixels = new Uint8ClampedArray(info.width * info.height * 4)
+    pixels.set(data)
+    return { width: info.width, height: info.height, data: pixels }
+  } catch (error) {
+    throw new Error(`Failed to decode image: ${error instanceof Error ? error.message : "Unknown error"}`)
+  }
+}
+
+function toSharp(image: RGBAImage) {
+  return sharp(Buffer.from(image.data.buffer, image.data.byteOffset, image.data.byteLength), {
+    raw: { width: image.width, height: image.height, channels: 4 },
+  })
+}
+
+export async function encodeJpeg(image: RGBAImage, quality = 1.0): Promise<Buffer> {
+  return toSharp(image)
+    .flatten({ background: "#000000" })
+    .jpeg({ quality: Math.round(quality * 100), chromaSubsampling: "4:4:4" })
+    .toBuffer()
+}
+
+export async function encodeTile(image: RGBAImage, encoding: TileEncoding): Promise<Buffer> {
+  const quality = Math.max(1, Math.round((encoding.quality ?? 1) * 100))
+
+  switch (encoding.format) {
+    case "jpeg":
+      return encodeJpeg(image, encoding.quality)
+    case "webp":
+      return toSharp(image).webp(encoding.lossless ? { lossless: true } : { quality }).toBuffer()
+    case "avif":
+      return toSharp(image).avif({ quality }).toBuffer()
+    case "png":
+      return toSharp(image).png().toBuffer()
+  }
+}
@@ -0,0 +1,348 @@
+import { z } from "zod"
+import { fitsTangentPlane } from "./sphere"
+
+export const DEFAULT_TILE_SIZE = 512
+export const TILE_SIZES = [256, 512, 1024] as const
+
+export const RESAMPLING_FILTERS = ["nearest", "bilinear", "bicubic", "lanczos3", "supersample"] as const
+export type ResamplingFilter = (typeof RESAMPLING_FILTERS)[number]
+export const DEFAULT_FILTER: ResamplingFilter = "bilinear"
+export const DEFAULT_SUPERSAMPLING = 2
+
+export const TILE_FORMATS = ["jpeg", "webp", "avif", "png"] as const
+export type TileFormat = (typeof TILE_FORMATS)[number]
+export const DEFAULT_TILE_FORMAT: TileFormat = "jpeg"
+
+// Only applied to HDR (.hdr / .exr) sources; "linear" is plain exposure + gamma
+export const TONE_MAPPINGS = ["aces", "reinhard", "linear"] as const
+export type ToneMapping = (typeof TONE_MAPPINGS)[number]
+export const DEFAULT_TONE_MAPPING: ToneMapping = "aces"
+export const DEFAULT_EXPOSURE = 0
+export const DEFAULT_GAMMA = 2.2
+
+// How the part of the sphere a cropped (GPano) panorama does not cover is filled
+export const CROP_FILLS = ["color", "mirror", "blur"] as const
+export type CropFill = (typeof CROP_FILLS)[number]
+export const DEFAULT_CROP_FILL: CropFill = "color"
+export const DEFAULT_CROP_FILL_COLOR = "#000000"
+
+// What covers the nadir (the tripod) on the down face: an uploaded logo, a solid disc or a blur of the
+// surrounding floor
+export const NADIR_PATCHES = ["none", "logo", "disc", "blur"] as const
+export type NadirPatch = (typeof NADIR_PATCHES)[number]
+export const DEFAULT_NADIR_PATCH: NadirPatch = "none"
+// Angular diameter in degrees; 90 reaches the middle of the down face's edges
+export const DEFAULT_NADIR_SIZE = 30
+export const DEFAULT_NADIR_COLOR = "#000000"
+
+// How a masked region (a face, a licence plate, a house number) is redacted
+export const REGION_EFFECTS = ["blur", "pixelate", "fill"] as const
+export type RegionEffect = (typeof REGION_EFFECTS)[number]
+export const REGION_SHAPES = ["polygon", "ellipse"] as const
+export type RegionShape = (typeof REGION_SHAPES)[number]
+export const DEFAULT_REGION_STRENGTH = 2
+export const DEFAULT_REGION_COLOR = "#000000"
+
+// "tiles" is the Marzipano pyramid; "environment" keeps float precision for engine cube maps;
+// "cubemap" writes the full-resolution faces as separate images or packed into one layout image
+export const OUTPUT_MODES = ["tiles", "environment", "cubemap"] as const
+export type OutputMode = (typeof OUTPUT_MODES)[number]
+export const DEFAULT_OUTPUT_MODE: OutputMode = "tiles"
+
+// Viewer the tile pyramid is laid out for: Marzipano's {z}/{f}/{y}/{x}, krpano's multires %l/%s/%v/%h or
+// Pannellum's multires %l/%s%y_%x
+export const TILE_TARGETS = ["marzipano", "krpano", "pannellum"] as const
+export type TileTarget = (typeof TILE_TARGETS)[number]
+export const DEFAULT_TILE_TARGET: TileTarget = "marzipano"
+
+// "eac" spreads each face's 90° evenly over its pixels (equi-angular cubemap); viewers must undo the warp
+export const CUBE_PROJECTIONS = ["standard", "eac"] as const
+export type CubeProjection = (typeof CUBE_PROJECTIONS)[number]
+export const DEFAULT_CUBE_PROJECTION: CubeProjection = "standard"
+
+export const ENVIRONMENT_FACE_FORMATS = ["hdr", "exr"] as const
+export type EnvironmentFaceFormat = (typeof ENVIRONMENT_FACE_FORMATS)[number]
+export const DEFAULT_ENVIRONMENT_FACE_FORMAT: EnvironmentFaceFormat = "hdr"
+
+// Single-image cubemap layouts accepted by the cubemap -> equirectangular converter
+export const CUBE_LAYOUTS = ["horizontal-cross", "vertical-cross", "strip", "grid-3x2"] as const
+export type CubeLayout = (typeof CUBE_LAYOUTS)[number]
+
+// "faces" writes six separate images instead of one packed layout
+export const CUBEMAP_EXPORT_LAYOUTS = ["faces", ...CUBE_LAYOUTS] as const
+export type CubemapExportLayout = (typeof CUBEMAP_EXPORT_LAYOUTS)[number]
+export const DEFAULT_CUBEMAP_EXPORT_LAYOUT: CubemapExportLayout = "faces"
+
+export const CUBEMAP_PRESETS = ["opengl", "directx", "unity", "marzipano"] as const
+export type CubemapPreset = (typeof CUBEMAP_PRESETS)[number]
+export const DEFAULT_CUBEMAP_PRESET: CubemapPreset = "opengl"
+
+// Same letters as FACE_NAMES; repeated here because projection.ts already depends on this module
+const faceLetter = z.enum(["r", "l", "u", "d", "f", "b"])
+
+const faceTransform = z.object({
+  rotation: z.union([z.literal(0), z.literal(90), z.literal(180), z.literal(270)]).optional(),
+  flipX: z.boolean().optional(),
+  flipY: z.boolean().optional(),
+})
+
+const faceSize = z.number().int().min(64).max(16384)
+
+const hexColor = z.string().regex(/^#[0-9a-f]{6}$/i, "must be a #rrggbb colour")
+
+export function parseHexColor(hex: string): [number, number, number] {
+  const value = Number.parseInt(hex.slice(1), 16)
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255]
+}
+
+// Region coordinates on the source panorama, in degrees: yaw 0 is the centre column and grows to the right,
+// pitch 0 is the horizon and grows upwards
+const sphericalPoint = z.object({
+  yaw: z.number().min(-180).max(180),
+  pitch: z.number().min(-90).max(90),
+})
+
+const regionEffect = {
+  effect: z.enum(REGION_EFFECTS),
+  // Degrees: the blur radius, or the size of a pixelation cell. Cells never get finer than a few source pixels,
+  // so a small value still redacts.
+  strength: z.number().min(0.1).max(30).optional(),
+  color: hexColor.optional(),
+}
+
+export const maskRegionSchema = z.discriminatedUnion("shape", [
+  z.object({ shape: z.literal("polygon"), points: z.array(sphericalPoint).min(3).max(256), ...regionEffect }),
+  z.object({
+    shape: z.literal("ellipse"),
+    center: sphericalPoint,
+    // Angular half-axes in degrees, along the horizon and towards the zenith before `rotation`
+    radiusX: z.number().gt(0).max(80),
+    radiusY: z.number().gt(0).max(80),
+    // Clockwise degrees
+    rotation: z.number().min(-180).max(180).optional(),
+    ...regionEffect,
+  }),
+])
+
+export type SphericalPoint = z.infer<typeof sphericalPoint>
+export type MaskRegion = z.infer<typeof maskRegionSchema>
+
+// Hotspots are placed on the output cube rather than the source, in degrees: yaw 0 / pitch 0 is the centre of
+// the front face, yaw grows to the right and pitch upwards
+export const infoHotspotSchema = sphericalPoint.extend({
+  title: z.string().max(200),
+  text: z.string().max(5000),
+  // URL of an image shown above the text; relative URLs resolve against the exported tour
+  image: z.string().min(1).max(2000).optional(),
+})
+
+// Each export holds one scene, so a link's target is the URL of another scene's tour
+export const linkHotspotSchema = sphericalPoint.extend({
+  target: z.string().min(1, "a link hotspot needs a target").max(2000),
+  // Clockwise degrees, turning the arrow
+  rotation: z.number().min(-180).max(180).optional(),
+})
+
+export type InfoHotspot = z.infer<typeof infoHotspotSchema>
+export type LinkHotspot = z.infer<typeof linkHotspotSchema>
+
+// Smallest derived level: the tile size doubled until it reaches `minFaceSize`
+export function baseFaceSize(tileSize: number, minFaceSize = tileSize): number {
+  let size = tileSize
+  while (size < minFaceSize) {
+    size *= 2
+  }
+  return size
+}
+
+// Settings shared by the browser converter, the API body and the settings panel.
+// Either `levelSizes` lists the face sizes explicitly, or the levels are derived from the source
+// width and optionally bounded by `minFaceSize` / `maxFaceSize`.
+export const conversionOptionsSchema = z
+  .object({
+    tileSize: z.number().int().min(64).max(4096).optional(),
+    levelSizes: z.array(faceSize).nonempty().optional(),
+    minFaceSize: faceSize.optional(),
+    maxFaceSize: faceSize.optional(),
+    includeFallback: z.boolean().optional(),
+    filter: z.enum(RESAMPLING_FILTERS).optional(),
+    supersampling: z.number().int().min(2).max(8).optional(),
+    tileFormat: z.enum(TILE_FORMATS).optional(),
+    quality: z.number().min(0.01).max(1).optional(),
+    lossless: z.boolean().optional(),
+    toneMapping: z.enum(TONE_MAPPINGS).optional(),
+    exposure: z.number().min(-10).max(10).optional(),
+    gamma: z.number().min(1).max(3).optional(),
+    applyGPano: z.boolean().optional(),
+    // Turns the sphere so the front face looks north, from GPano:PoseHeadingDegrees
+    alignGPanoHeading: z.boolean().optional(),
+    // Degrees; see orientation.ts for the conventions
+    yaw: z.number().min(-180).max(180).optional(),
+    pitch: z.number().min(-90).max(90).optional(),
+    roll: z.number().min(-180).max(180).optional(),
+    cropFill: z.enum(CROP_FILLS).optional(),
+    cropFillColor: hexColor.optional(),
+    nadirPatch: z.enum(NADIR_PATCHES).optional(),
+    nadirSize: z.number().min(1).max(90).optional(),
+    // Clockwise degrees, turning the logo on the down face
+    nadirRotation: z.number().min(-180).max(180).optional(),
+    nadirColor: hexColor.optional(),
+    // API only: where the server fetches the logo from. The browser converter takes the logo file directly.
+    nadirLogoUrl: z.string().url().optional(),
+    // Redacted while projecting, so every face and level is covered
+    regions: z.array(maskRegionSchema).max(100).optional(),
+    // Written into the viewer configs: data.js for Marzipano, config.json for every target
+    infoHotspots: z.array(infoHotspotSchema).max(200).optional(),
+    linkHotspots: z.array(linkHotspotSchema).max(200).optional(),
+    output: z.enum(OUTPUT_MODES).optional(),
+    tileTarget: z.enum(TILE_TARGETS).optional(),
+    cubeProjection: z.enum(CUBE_PROJECTIONS).optional(),
+    environmentFaceFormat: z.enum(ENVIRONMENT_FACE_FORMATS).optional(),
+    // Face size for the environment and cubemap outputs; the tile pyramid uses the level options instead
+    outputFaceSize: faceSize.optional(),
+    cubemapLayout: z.enum(CUBEMAP_EXPORT_LAYOUTS).optional(),
+    cubemapPreset: z.enum(CUBEMAP_PRESETS).optional(),
+    faceOrder: z.array(faceLetter).length(6).optional(),
+    faceTransforms: z.record(faceLetter, faceTransform).optional(),
+  })
+  .superRefine((options, ctx) => {
+    const tileSize = options.tileSize ?? DEFAULT_TILE_SIZE
+
+    if (options.levelSizes) {
+      if (options.minFaceSize !== undefined || options.maxFaceSize !== undefined) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["levelSizes"],
+          message: "levelSizes cannot be combined with minFaceSize or maxFaceSize",
+        })
+      }
+      options.levelSizes.forEach((size, index) => {
+        if (size % tileSize !== 0 && size > tileSize) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            path: ["levelSizes", index],
+            message: `Level size ${size} must be a multiple of the tile size ${tileSize}`,
+          })
+        }
+      })
+
+      // Pannellum derives every level from cubeResolution by halving
+      const sizes = Array.from(new Set(options.levelSizes)).sort((a, b) => a - b)
+      if (options.tileTarget === "pannellum" && sizes.some((size, i) => i > 0 && size !== sizes[i - 1] * 2)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["levelSizes"],
+          message: "Pannellum levels must each be twice the size of the one below",
+        })
+      }
+    }
+
+    options.regions?.forEach((region, index) => {
+      if (region.shape === "polygon" && !fitsTangentPlane(region.points)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["regions", index, "points"],
+          message: "A polygon region must fit within half of the sphere",
+        })
+      }
+    })
+
+    if (options.lossless && options.tileFormat !== "webp") {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["lossless"],
+        message: "lossless is only available for WebP tiles",
+      })
+    }
+
+    if (options.cubeProjection === "eac" && options.output === "environment") {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["cubeProjection"],
+        message: "Environment cubemaps are read by engines as standard cube maps and cannot use EAC",
+      })
+    }
+
+    if ((options.nadirPatch ?? DEFAULT_NADIR_PATCH) !== "none" && options.output === "environment") {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["nadirPatch"],
+        message: "Nadir patches are drawn on image outputs only, not on environment cubemaps",
+      })
+    }
+
+    if (
+      (options.infoHotspots?.length || options.linkHotspots?.length) &&
+      (options.output ?? DEFAULT_OUTPUT_MODE) !== "tiles"
+    ) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: [options.infoHotspots?.length ? "infoHotspots" : "linkHotspots"],
+        message: "Hotspots are written into tile viewer configs and need the tiles output",
+      })
+    }
+
+    if (options.tileTarget && options.tileTarget !== "marzipano" && options.cubeProjection === "eac") {
+      const viewer = options.tileTarget === "krpano" ? "krpano" : "Pannellum"
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["cubeProjection"],
+        message: `${viewer} multires cubes are standard cube faces and cannot use EAC`,
+      })
+    }
+
+    if (options.faceOrder && new Set(options.faceOrder).size !== 6) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["faceOrder"],
+        message: "faceOrder must list each of r, l, u, d, f, b exactly once",
+      })
+    }
+
+    if (options.maxFaceSize !== undefined && options.maxFaceSize < tileSize) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["maxFaceSize"],
+        message: `maxFaceSize must be at least the tile size ${tileSize}`,
+      })
+    }
+
+    if (
+      options.minFaceSize !== undefined &&
+      options.maxFaceSize !== undefined &&
+      options.minFaceSize > options.maxFaceSize
+    ) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["minFaceSize"],
+        message: "minFaceSize must not exceed maxFaceSize",
+      })
+    } else if (options.maxFaceSize !== undefined && baseFaceSize(tileSize, options.minFaceSize) > options.maxFaceSize) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["minFaceSize"],
+        message:
+          `minFaceSize rounds up to a ${baseFaceSize(tileSize, options.minFaceSize)} face, ` +
+          `larger than maxFaceSize ${options.maxFaceSize}`,
+      })
+    }
+  })
+
+export type ConversionOptions = z.infer<typeof conversionOptionsSchema>
+
+// Cubemap layout -> equirectangular. Without `layout` it is detected from the aspect ratio, and without
+// `outputWidth` the equator keeps the faces' pixel density (four faces around).
+export const reverseOptionsSchema = z.object({
+  layout: z.enum(CUBE_LAYOUTS).optional(),
+  // Single images only; tile ZIPs record their projection in config.json
+  cubeProjection: z.enum(CUBE_PROJECTIONS).optional(),
+  outputWidth: z.number().int().min(64).max(32768).multipleOf(2).optional(),
+  outputFormat: z.enum(TILE_FORMATS).optional(),
+  quality: z.number().min(0.01).max(1).optional(),
+})
+
+export type ReverseOptions = z.infer<typeof reverseOptionsSchema>
+
+export function formatOptionsError(error: z.ZodError): string {
+  return error.issues.map((issue) => `${issue.path.join(".") || "options"}: ${issue.message}`).join("; ")
+}
@@ -0,0 +1,41 @@
+import { describe, expect, it } from "vitest"
+import { orientationMatrix, rotateDirection, yawTowards, type Orientation } from "./orientation"
+
+// Source direction that the viewer's front face samples
+function front(orientation: Orientation): number[] {
+  const m = orientationMatrix(orientation)
+  return m ? rotateDirection(m, 0, 0, 1) : [0, 0, 1]
+}
+
+function expectDirection(actual: number[], expected: number[]) {
+  actual.forEach((value, i) => expect(value).toBeCloseTo(expected[i], 10))
+}
+
+describe("orientationMatrix", () => {
+  it("is null for the identity", () => {
+    expect(orientationMatrix({ yaw: 0, pitch: 0, roll: 0 })).toBeNull()
+  })
+
+  it("turns right for positive yaw", () => {
+    expectDirection(front({ yaw: 90, pitch: 0, roll: 0 }), [1, 0, 0])
+    expectDirection(front({ yaw: -90, pitch: 0, roll: 0 }), [-1, 0, 0])
+  })
+
+  it("looks up for positive pitch", () => {
+    expectDirection(front({ yaw: 0, pitch: 30, roll: 0 }), [0, 0.5, Math.sqrt(3) / 2])
+  })
+
+  it("leans the up direction to the right for positive roll", () => {
+    const m = orientationMatrix({ yaw: 0, pitch: 0, roll: 90 })!
+    expectDirection(rotateDirection(m, 0, 1, 0), [1, 0, 0])
+  })
+})
+
+describe("yawTowards", () => {
+  it("brings a point on the horizon to the front", () => {
+    const point = [Math.SQRT1_2, 0, -Math.SQRT1_2] as [number, number, number]
+    const turned = yawTowards({ yaw: 0, pitch: 0, roll: 0 }, point)
+    expect(turned.yaw).toBeCloseTo(135, 10)
+    expectDirection(front(turned), point)
+  })
+})
@@ -0,0 +1,102 @@
+// Reorients the sphere before faces are projected. Directions use the projection's frame: +X right, +Y up,
+// +Z the front face (three quarters across the equirectangular image).
+//
+// Pitch and roll level the source about its own axes, then yaw turns the levelled sphere about the
+// vertical, so changing the heading never undoes the levelling. All angles are in degrees: positive yaw
+// turns right, positive pitch looks up and positive roll leans the up direction to the right.
+import type { GPanoMetadata } from "./gpano"
+import type { ConversionOptions } from "./options"
+
+export interface Orientation {
+  yaw: number
+  pitch: number
+  roll: number
+}
+
+// Row-major 3x3 rotation taking a viewer direction to the source direction it samples
+export type Matrix3 = [number, number, number, number, number, number, number, number, number]
+
+const DEGREES = Math.PI / 180
+
+export function resolveOrientation(options: Pick<ConversionOptions, "yaw" | "pitch" | "roll">): Orientation {
+  return { yaw: options.yaw ?? 0, pitch: options.pitch ?? 0, roll: options.roll ?? 0 }
+}
+
+function multiply(a: Matrix3, b: Matrix3): Matrix3 {
+  const out = new Array(9) as Matrix3
+  for (let row = 0; row < 3; row++) {
+    for (let col = 0; col < 3; col++) {
+      out[row * 3 + col] = a[row * 3] * b[col] + a[row * 3 + 1] * b[3 + col] + a[row * 3 + 2] * b[6 + col]
+    }
+  }
+  return out
+}
+
+// The levelling part alone (pitch, then roll)
+function levelMatrix(pitch: number, roll: number): Matrix3 {
+  const p = pitch * DEGREES
+  const r = roll * DEGREES
+  const pitchMatrix: Matrix3 = [1, 0, 0, 0, Math.cos(p), Math.sin(p), 0, -Math.sin(p), Math.cos(p)]
+  const rollMatrix: Matrix3 = [Math.cos(r), Math.sin(r), 0, -Math.sin(r), Math.cos(r), 0, 0, 0, 1]
+  return multiply(pitchMatrix, rollMatrix)
+}
+
+// Written to config.json so a viewer can relate the faces back to the original panorama. The GPano heading is
+// listed when it was used to turn north to the front before yaw, pitch and roll were applied.
+export function orientationConfig(options: ConversionOptions, gpano?: GPanoMetadata | null) {
+  const heading = options.alignGPanoHeading ? gpano?.poseHeadingDegrees : undefined
+  return { ...resolveOrientation(options), ...(heading !== undefined && { gpanoHeading: heading }) }
+}
+
+// null for the identity, so unrotated conversions skip the extra work entirely
+export function orientationMatrix(orientation: Orientation): Matrix3 | null {
+  if (orientation.yaw === 0 && orientation.pitch === 0 && orientation.roll === 0) {
+    return null
+  }
+  // Positive yaw brings the source's +X side to the front
+  const y = orientation.yaw * DEGREES
+  const yawMatrix: Matrix3 = [Math.cos(y), 0, Math.sin(y), 0, 1, 0, -Math.sin(y), 0, Math.cos(y)]
+  return multiply(levelMatrix(orientation.pitch, orientation.roll), yawMatrix)
+}
+
+export function rotateDirection(m: Matrix3, x: number, y: number, z: number): [number, number, number] {
+  return [m[0] * x + m[1] * y + m[2] * z, m[3] * x + m[4] * y + m[5] * z, m[6] * x + m[7] * y + m[8] * z]
+}
+
+// The source direction that becomes straight up once the sphere is levelled
+export function horizonNormal(orientation: Orientation): [number, number, number] {
+  return rotateDirection(levelMatrix(orientation.pitch, orientation.roll), 0, 1, 0)
+}
+
+// Pitch and roll that make `normal` (a unit source direction) the new vertical
+export function levelFromNormal(normal: [number, number, number]): Pick<Orientation, "pitch" | "roll"> {
+  const [x, y, z] = normal
+  return {
+    pitch: Math.atan2(-z, y) / DEGREES,
+    roll: Math.asin(Math.max(-1, Math.min(1, x))) / DEGREES,
+  }
+}
+
+// Smallest change of level that puts the source direction `point` on the horizon: the current vertical is
+// tilted just enough to become perpendicular to it
+export function levelThrough(orientation: Orientation, point: [number, number, number]): Orientation {
+  const n = horizonNormal(orientation)
+  const dot = n[0] * point[0] + n[1] * point[1] + n[2] * point[2]
+  const tilted: [number, number, number] = [n[0] - dot * point[0], n[1] - dot * point[1], n[2] - dot * point[2]]
+  const length = Math.hypot(...tilted)
+  if (length < 1e-6) {
+    return orientation
+  }
+  return { ...orientation, ...levelFromNormal([tilted[0] / length, tilted[1] / length, tilted[2] / length]) }
+}
+
+// Yaw that turns the front face towards the source direction `point`, keeping the current level
+export function yawTowards(orientation: Orientation, point: [number, number, number]): Orientation {
+  const level = levelMatrix(orientation.pitch, orientation.roll)
+  // Rotation matrices are orthogonal, so the transpose undoes the levelling
+  const [x, , z] = rotateDirection(
+    [level[0], level[3], level[6], level[1], level[4], level[7], level[2], level[5], level[8]],
+    ...point,
+  )
+  return { ...orientation, yaw: Math.atan2(x, z) / DEGREES }
+}
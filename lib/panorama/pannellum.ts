@@ -0,0 +1,65 @@
+// Pannellum multires output. Pannellum's faces f, r, b, l, u, d are the same images as the Marzipano pyramid's;
+// only the layout differs, following Pannellum's generate.py: %l/%s%y_%x, with levels counted from 1 at the
+// smallest and rows and columns from 0, plus an optional fallback of six whole faces for browsers without WebGL.
+import type { TileEncoding } from "./formats"
+import type { ConversionOptions } from "./options"
+import type { CubemapTile, TileConfig } from "./tiles"
+
+// Both are appended to multiRes.basePath, hence the leading slash
+const PANNELLUM_PATH = "/%l/%s%y_%x"
+const PANNELLUM_FALLBACK_PATH = "/fallback/%s"
+
+// generate.py's default; the fallback is never larger than the top level
+export const PANNELLUM_FALLBACK_SIZE = 1024
+
+export function pannellumTileUrl(encoding: Pick<TileEncoding, "extension">): string {
+  return `${PANNELLUM_PATH.slice(1)}.${encoding.extension}`
+}
+
+// Level numbers skip the fallback, which Pannellum loads from its own directory
+export function pannellumTilePath(
+  tile: Pick<CubemapTile, "z" | "face" | "y" | "x">,
+  tileConfigs: TileConfig[],
+): string {
+  if (tileConfigs[tile.z].fallbackOnly) {
+    return `fallback/${tile.face}`
+  }
+  const level = tileConfigs.slice(0, tile.z + 1).filter((config) => !config.fallbackOnly).length
+  return `${level}/${tile.face}${tile.y}_${tile.x}`
+}
+
+// The multiRes block of a Pannellum config. Pannellum derives each level's size by halving cubeResolution, which
+// the levels match: they double from the tile size, and explicit level sizes are checked by the options schema.
+export function createPannellumMultiRes(tileConfigs: TileConfig[], encoding: TileEncoding) {
+  const levels = tileConfigs.filter((config) => !config.fallbackOnly)
+  const top = levels[levels.length - 1]
+  return {
+    basePath: ".",
+    path: PANNELLUM_PATH,
+    ...(tileConfigs.some((config) => config.fallbackOnly) && { fallbackPath: PANNELLUM_FALLBACK_PATH }),
+    extension: encoding.extension,
+    tileResolution: top.tileSize,
+    maxLevel: levels.length,
+    cubeResolution: top.size,
+  }
+}
+
+// Pannellum's hotSpots use the options' degrees and directions. Its info hotspots carry one line of text, and a
+// single-scene config has no scenes to link to, so links are info hotspots that open their target URL.
+export function pannellumHotSpots(options: ConversionOptions) {
+  return [
+    ...(options.infoHotspots ?? []).map((hotspot) => ({
+      type: "info",
+      yaw: hotspot.yaw,
+      pitch: hotspot.pitch,
+      text: [hotspot.title, hotspot.text].filter(Boolean).join(": "),
+    })),
+    ...(options.linkHotspots ?? []).map((hotspot) => ({
+      type: "info",
+      yaw: hotspot.yaw,
+      pitch: hotspot.pitch,
+      text: hotspot.target,
+      URL: hotspot.target,
+    })),
+  ]
+}
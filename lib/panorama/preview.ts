@@ -0,0 +1,31 @@
+// Small browser-side copies of the source for the editors that draw over it (horizon, privacy regions)
+import { applyGPano } from "./gpano"
+import type { ConversionOptions } from "./options"
+import type { RGBAImage } from "./projection"
+
+export const PREVIEW_WIDTH = 1024
+
+// Downscaled copy of the source, with any GPano crop placement and heading alignment the converter would
+// apply, so overlays line up with what actually gets projected
+export async function decodePreview(file: File, options: ConversionOptions): Promise<RGBAImage> {
+  const bitmap = await createImageBitmap(file)
+  const width = Math.min(PREVIEW_WIDTH, bitmap.width)
+  const height = Math.round((bitmap.height * width) / bitmap.width)
+  const canvas = document.createElement("canvas")
+  canvas.width = width
+  canvas.height = height
+  const ctx = canvas.getContext("2d")!
+  ctx.drawImage(bitmap, 0, 0, width, height)
+  bitmap.close()
+  const imageData = ctx.getImageData(0, 0, width, height)
+  const image = { width, height, data: imageData.data }
+  return applyGPano(image, await file.arrayBuffer(), options).image
+}
+
+export function imageToCanvas(image: RGBAImage): HTMLCanvasElement {
+  const canvas = document.createElement("canvas")
+  canvas.width = image.width
+  canvas.height = image.height
+  canvas.getContext("2d")!.putImageData(new ImageData(image.data, image.width, image.height), 0, 0)
+  return canvas
+}
@@ -0,0 +1,56 @@
+import { describe, expect, it } from "vitest"
+import {
+  directionToEquirectangular,
+  eacToFace,
+  equirectangularToDirection,
+  equirectangularToFaceUV,
+  faceToEAC,
+  faceUVToEquirectangular,
+} from "./projection"
+
+describe("equirectangular directions", () => {
+  it("puts the front face three quarters across the image", () => {
+    expect(directionToEquirectangular(0, 0, 1)).toEqual([0.75, 0.5])
+    const [x, y, z] = equirectangularToDirection(0.75, 0.5)
+    expect(x).toBeCloseTo(0)
+    expect(y).toBeCloseTo(0)
+    expect(z).toBeCloseTo(1)
+  })
+
+  it("round-trips image positions through directions", () => {
+    for (const [u, v] of [
+      [0.1, 0.2],
+      [0.5, 0.5],
+      [0.9, 0.7],
+      [0.33, 0.95],
+    ]) {
+      const [eqU, eqV] = directionToEquirectangular(...equirectangularToDirection(u, v))
+      expect(eqU).toBeCloseTo(u, 10)
+      expect(eqV).toBeCloseTo(v, 10)
+    }
+  })
+})
+
+describe("cube faces", () => {
+  it("round-trips face positions through the equirectangular image", () => {
+    for (let face = 0; face < 6; face++) {
+      for (const [u, v] of [
+        [0.5, 0.5],
+        [0.1, 0.8],
+        [0.7, 0.25],
+      ]) {
+        const [backFace, backU, backV] = equirectangularToFaceUV(...faceUVToEquirectangular(face, u, v))
+        expect(backFace).toBe(face)
+        expect(backU).toBeCloseTo(u, 10)
+        expect(backV).toBeCloseTo(v, 10)
+      }
+    }
+  })
+
+  it("undoes the EAC warp", () => {
+    for (const t of [-1, -0.4, 0, 0.25, 1]) {
+      expect(faceToEAC(eacToFace(t))).toBeCloseTo(t, 10)
+    }
+    expect(eacToFace(1)).toBeCloseTo(1, 10)
+  })
+})
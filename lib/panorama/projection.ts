@@ -0,0 +1,248 @@
+// Environment-agnostic equirectangular -> cube face projection.
+// Works on raw RGBA buffers only, so the same code runs in the browser, in a Web Worker and in Node.
+import {
+  DEFAULT_FILTER,
+  DEFAULT_SUPERSAMPLING,
+  type CubeProjection,
+  type MaskRegion,
+  type ResamplingFilter,
+} from "./options"
+import { orientationMatrix, resolveOrientation, rotateDirection, type Matrix3 } from "./orientation"
+import { compileRegions, redactPixel } from "./regions"
+import { TAP_FUNCTIONS, sampleEquirectangularArea } from "./sampling"
+
+export interface RGBAImage {
+  width: number
+  height: number
+  data: Uint8ClampedArray<ArrayBuffer>
+}
+
+// Linear-light RGBA floats (alpha is always 1), used for HDR sources and environment cubemaps
+export interface FloatImage {
+  width: number
+  height: number
+  data: Float32Array<ArrayBuffer>
+}
+
+// The sampling and projection code reads either layout, four channels per pixel
+export type PixelImage = RGBAImage | FloatImage
+
+export const FACE_NAMES = ["r", "l", "u", "d", "f", "b"] as const // right, left, up, down, front, back
+
+export type FaceName = (typeof FACE_NAMES)[number]
+
+export function createRGBAImage(width: number, height: number): RGBAImage {
+  return { width, height, data: new Uint8ClampedArray(width * height * 4) }
+}
+
+export function createFloatImage(width: number, height: number): FloatImage {
+  return { width, height, data: new Float32Array(width * height * 4) }
+}
+
+// Direction (not normalised) through face coordinates (uc, vc) in [-1, 1], with vc growing downwards
+export function faceDirection(face: number, uc: number, vc: number): [number, number, number] {
+  switch (face) {
+    case 0: // Right (+X)
+      return [1, -vc, -uc]
+    case 1: // Left (-X)
+      return [-1, -vc, uc]
+    case 2: // Up (+Y)
+      return [uc, 1, vc]
+    case 3: // Down (-Y)
+      return [uc, -1, -vc]
+    case 4: // Front (+Z)
+      return [uc, -vc, 1]
+    case 5: // Back (-Z)
+      return [-uc, -vc, -1]
+    default:
+      return [0, 0, 0]
+  }
+}
+
+// `rotation` reorients the sphere first (see orientation.ts); without it the faces look straight at the source
+export function faceUVToEquirectangular(
+  face: number,
+  u: number,
+  v: number,
+  rotation: Matrix3 | null = null,
+): [number, number] {
+  // Map UV to [-1, 1] range, then to a 3D direction
+  let [x, y, z] = faceDirection(face, 2 * u - 1, 2 * v - 1)
+
+  if (rotation) {
+    ;[x, y, z] = rotateDirection(rotation, x, y, z)
+  }
+  return directionToEquirectangular(x, y, z)
+}
+
+export function directionToEquirectangular(x: number, y: number, z: number): [number, number] {
+  const theta = Math.atan2(z, x)
+  const phi = Math.acos(y / Math.sqrt(x * x + y * y + z * z))
+
+  const eqU = (theta + Math.PI) / (2 * Math.PI)
+  const eqV = phi / Math.PI
+
+  return [eqU, eqV]
+}
+
+// Unit direction for equirectangular coordinates (u, v in [0, 1])
+export function equirectangularToDirection(eqU: number, eqV: number): [number, number, number] {
+  const theta = eqU * 2 * Math.PI - Math.PI
+  const phi = eqV * Math.PI
+  return [Math.sin(phi) * Math.cos(theta), Math.cos(phi), Math.sin(phi) * Math.sin(theta)]
+}
+
+// Inverse of faceUVToEquirectangular: which face a direction lands on, and where on it (u, v in [0, 1])
+export function equirectangularToFaceUV(eqU: number, eqV: number): [number, number, number] {
+  const [x, y, z] = equirectangularToDirection(eqU, eqV)
+
+  const ax = Math.abs(x)
+  const ay = Math.abs(y)
+  const az = Math.abs(z)
+  let face: number, uc: number, vc: number
+
+  if (ax >= ay && ax >= az) {
+    face = x > 0 ? 0 : 1
+    uc = x > 0 ? -z / ax : z / ax
+    vc = -y / ax
+  } else if (ay >= az) {
+    face = y > 0 ? 2 : 3
+    uc = x / ay
+    vc = y > 0 ? z / ay : -z / ay
+  } else {
+    face = z > 0 ? 4 : 5
+    uc = z > 0 ? x / az : -x / az
+    vc = -y / az
+  }
+
+  return [face, (uc + 1) / 2, (vc + 1) / 2]
+}
+
+// Approximate angular size of one pixel at face coordinates (uc, vc) in [-1, 1]:
+// 2 / size at the face centre, shrinking towards the corners.
+function faceAngularPixelSize(uc: number, vc: number, size: number): number {
+  return 2 / size / Math.pow(1 + uc * uc + vc * vc, 0.75)
+}
+
+// An EAC face stores the coordinate t in [-1, 1] at the angle t * 45° from the face centre, so the
+// standard face coordinate is tan(t * π / 4). faceToEAC undoes the warp.
+export function eacToFace(t: number): number {
+  return Math.tan((t * Math.PI) / 4)
+}
+
+export function faceToEAC(c: number): number {
+  return (Math.atan(c) * 4) / Math.PI
+}
+
+// Standard face coordinates in [-1, 1] for the stored sample at (u, v) in [0, 1], and the angular size of a
+// stored pixel there. EAC pixels are stretched by the derivative of the warp, (π / 4) * (1 + c²) per axis.
+function faceSample(u: number, v: number, size: number, eac: boolean): [number, number, number] {
+  if (!eac) {
+    const uc = 2 * u - 1
+    const vc = 2 * v - 1
+    return [uc, vc, faceAngularPixelSize(uc, vc, size)]
+  }
+
+  const uc = eacToFace(2 * u - 1)
+  const vc = eacToFace(2 * v - 1)
+  const stretch = (Math.PI / 4) * Math.sqrt((1 + uc * uc) * (1 + vc * vc))
+  return [uc, vc, faceAngularPixelSize(uc, vc, size) * stretch]
+}
+
+export interface SamplingOptions {
+  filter?: ResamplingFilter
+  supersampling?: number
+  cubeProjection?: CubeProjection
+  yaw?: number
+  pitch?: number
+  roll?: number
+  regions?: MaskRegion[]
+}
+
+export function generateCubeFace(
+  source: PixelImage,
+  face: number,
+  size: number,
+  options: SamplingOptions = {},
+): RGBAImage {
+  return projectFace(source, createRGBAImage(size, size), face, options, 255)
+}
+
+// Same projection without quantising, so HDR values above 1 survive for environment maps
+export function generateFloatCubeFace(
+  source: FloatImage,
+  face: number,
+  size: number,
+  options: SamplingOptions = {},
+): FloatImage {
+  return projectFace(source, createFloatImage(size, size), face, options, 1)
+}
+
+function projectFace<T extends PixelImage>(
+  source: PixelImage,
+  faceImage: T,
+  face: number,
+  options: SamplingOptions,
+  opaque: number,
+): T {
+  const size = faceImage.width
+  const out = faceImage.data
+  const pixel = [0, 0, 0]
+  const sub = [0, 0, 0]
+
+  const filter = options.filter ?? DEFAULT_FILTER
+  const tap = TAP_FUNCTIONS[filter]
+  // Supersampling averages N x N bilinear sub-pixel projections instead of widening the footprint
+  const samples = filter === "supersample" ? (options.supersampling ?? DEFAULT_SUPERSAMPLING) : 1
+  const eac = options.cubeProjection === "eac"
+  const rotation = orientationMatrix(resolveOrientation(options))
+  const regions = compileRegions(options.regions)
+
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      if (samples === 1) {
+        const [uc, vc, angularSize] = faceSample((x + 0.5) / size, (y + 0.5) / size, size, eac)
+        const [eqU, eqV] = faceUVToEquirectangular(face, (uc + 1) / 2, (vc + 1) / 2, rotation)
+        if (filter === "nearest") {
+          pixel[0] = pixel[1] = pixel[2] = 0
+          tap(source, eqU * source.width, eqV * source.height, 1, pixel)
+        } else {
+          sampleEquirectangularArea(source, eqU, eqV, angularSize, pixel, tap)
+        }
+      } else {
+        pixel[0] = pixel[1] = pixel[2] = 0
+        for (let sy = 0; sy < samples; sy++) {
+          for (let sx = 0; sx < samples; sx++) {
+            const u = (x + (sx + 0.5) / samples) / size
+            const v = (y + (sy + 0.5) / samples) / size
+            const [uc, vc, angularSize] = faceSample(u, v, size, eac)
+            const [eqU, eqV] = faceUVToEquirectangular(face, (uc + 1) / 2, (vc + 1) / 2, rotation)
+            sampleEquirectangularArea(source, eqU, eqV, angularSize / samples, sub)
+            pixel[0] += sub[0]
+            pixel[1] += sub[1]
+            pixel[2] += sub[2]
+          }
+        }
+        const scale = 1 / (samples * samples)
+        pixel[0] *= scale
+        pixel[1] *= scale
+        pixel[2] *= scale
+      }
+
+      if (regions.length > 0) {
+        const [uc, vc] = faceSample((x + 0.5) / size, (y + 0.5) / size, size, eac)
+        const [eqU, eqV] = faceUVToEquirectangular(face, (uc + 1) / 2, (vc + 1) / 2, rotation)
+        redactPixel(source, regions, eqU, eqV, pixel, opaque === 1)
+      }
+
+      // Bicubic and Lanczos lobes can undershoot; float output has no clamping to absorb that
+      const idx = (y * size + x) * 4
+      out[idx] = Math.max(0, pixel[0])
+      out[idx + 1] = Math.max(0, pixel[1])
+      out[idx + 2] = Math.max(0, pixel[2])
+      out[idx + 3] = opaque
+    }
+  }
+
+  return faceImage
+}
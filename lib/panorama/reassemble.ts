@@ -0,0 +1,178 @@
+// Rebuilds the six faces of an existing Marzipano tile set ({z}/{f}/{y}/{x}.{ext} plus config.json) from its
+// largest level. Reading and decoding are passed in, so the same checks run on any ZIP reader and decoder.
+import { z } from "zod"
+import { CUBE_PROJECTIONS, DEFAULT_CUBE_PROJECTION, type CubeProjection } from "./options"
+import { FACE_NAMES, createRGBAImage, type FaceName, type RGBAImage } from "./projection"
+import type { TileConfig } from "./tiles"
+
+const TILE_PATH = /^(\d+)\/([rludfb])\/(\d+)\/(\d+)\.(jpe?g|png|webp|avif)$/i
+
+// Only the fields reassembly relies on; everything else in config.json is informational
+const tileSetConfigSchema = z.object({
+  faceSize: z.number().int().positive().optional(),
+  projection: z.enum(CUBE_PROJECTIONS).optional(),
+  tileConfigs: z
+    .array(
+      z.object({
+        tileSize: z.number().int().positive(),
+        size: z.number().int().positive(),
+        fallbackOnly: z.boolean().optional(),
+      }),
+    )
+    .nonempty(),
+})
+
+export interface TileSetEntry {
+  path: string
+  decode: () => Promise<RGBAImage>
+}
+
+export interface ReassembledTileSet {
+  // Upright faces in r,l,u,d,f,b order
+  faces: RGBAImage[]
+  tileConfigs: TileConfig[]
+  level: TileConfig
+  z: number
+  extension: string
+  // Sets written before the EAC option have no projection field and are standard cube faces
+  projection: CubeProjection
+  // Paths of tiles the config expects but the ZIP does not contain; those areas are left black
+  missing: string[]
+  // Tiles of the other levels, which are not needed to rebuild the faces
+  skipped: number
+}
+
+// ZIPs are often made from the parent folder, so everything is taken relative to config.json
+function tileSetRoot(paths: string[]): string {
+  const configs = paths.filter((path) => path === "config.json" || path.endsWith("/config.json"))
+  if (configs.length === 0) {
+    throw new Error("config.json not found in the ZIP; it is needed to know the level and tile sizes")
+  }
+  const shortest = configs.reduce((a, b) => (a.length <= b.length ? a : b))
+  return shortest.slice(0, shortest.length - "config.json".length)
+}
+
+function parseTileSetConfig(text: string): z.infer<typeof tileSetConfigSchema> {
+  let json: unknown
+  try {
+    json = JSON.parse(text)
+  } catch {
+    throw new Error("config.json is not valid JSON")
+  }
+
+  const parsed = tileSetConfigSchema.safeParse(json)
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map((issue) => `${issue.path.join(".") || "config"}: ${issue.message}`)
+    throw new Error(`config.json does not describe a Marzipano tile set (${issues.join("; ")})`)
+  }
+  return parsed.data
+}
+
+export async function reassembleTileSet(
+  entries: TileSetEntry[],
+  readConfig: (path: string) => Promise<string>,
+): Promise<ReassembledTileSet> {
+  const root = tileSetRoot(entries.map((entry) => entry.path))
+  const config = parseTileSetConfig(await readConfig(`${root}config.json`))
+  const tileConfigs = config.tileConfigs as TileConfig[]
+
+  // The largest level holds all the detail; the fallback level never does
+  const candidates = tileConfigs.filter((level) => !level.fallbackOnly)
+  if (candidates.length === 0) {
+    throw new Error("config.json only lists a fallback level")
+  }
+  const level = candidates.reduce((a, b) => (b.size > a.size ? b : a))
+  const levelZ = tileConfigs.indexOf(level)
+
+  if (config.faceSize !== undefined && config.faceSize !== level.size) {
+    throw new Error(`config.json gives faceSize ${config.faceSize} but its largest level is ${level.size}px`)
+  }
+
+  const tiles = new Map<string, TileSetEntry>()
+  const extensions = new Set<string>()
+  let skipped = 0
+  for (const entry of entries) {
+    if (!entry.path.startsWith(root)) continue
+    const match = TILE_PATH.exec(entry.path.slice(root.length))
+    if (!match) continue
+
+    const tileZ = Number(match[1])
+    if (tileZ >= tileConfigs.length) {
+      throw new Error(
+        `Found tiles for level ${tileZ} but config.json lists only ${tileConfigs.length} ` +
+          `level${tileConfigs.length === 1 ? "" : "s"}; ` +
+          "the config probably belongs to a different tile set",
+      )
+    }
+    if (tileZ !== levelZ) {
+      skipped++
+      continue
+    }
+    extensions.add(match[5].toLowerCase())
+    tiles.set(`${match[2].toLowerCase()}/${Number(match[3])}/${Number(match[4])}`, entry)
+  }
+
+  if (tiles.size === 0) {
+    throw new Error(`No tiles found for the largest level (z = ${levelZ}, ${level.size}px faces)`)
+  }
+  if (extensions.size > 1) {
+    throw new Error(`The largest level mixes tile formats: ${Array.from(extensions).join(", ")}`)
+  }
+  const extension = Array.from(extensions)[0]
+
+  const tilesPerSide = Math.ceil(level.size / level.tileSize)
+  const missing: string[] = []
+  const faces: RGBAImage[] = []
+
+  for (const face of FACE_NAMES) {
+    const faceImage = createRGBAImage(level.size, level.size)
+    faceImage.data.fill(255)
+
+    for (let y = 0; y < tilesPerSide; y++) {
+      for (let x = 0; x < tilesPerSide; x++) {
+        const entry = tiles.get(`${face}/${y}/${x}`)
+        if (!entry) {
+          missing.push(`${levelZ}/${face}/${y}/${x}.${extension}`)
+          clearRegion(faceImage, x * level.tileSize, y * level.tileSize, level.tileSize)
+          continue
+        }
+        placeTile(faceImage, await entry.decode(), face, x, y, level)
+      }
+    }
+    faces.push(faceImage)
+  }
+
+  const projection = config.projection ?? DEFAULT_CUBE_PROJECTION
+  return { faces, tileConfigs, level, z: levelZ, extension, projection, missing, skipped }
+}
+
+function clearRegion(face: RGBAImage, left: number, top: number, tileSize: number): void {
+  const right = Math.min(face.width, left + tileSize)
+  const bottom = Math.min(face.height, top + tileSize)
+  for (let y = top; y < bottom; y++) {
+    for (let x = left; x < right; x++) {
+      const idx = (y * face.width + x) * 4
+      face.data[idx] = face.data[idx + 1] = face.data[idx + 2] = 0
+    }
+  }
+}
+
+// Edge tiles may be padded to the full tile size (as extractTile writes them) or cropped to the face
+function placeTile(face: RGBAImage, tile: RGBAImage, name: FaceName, x: number, y: number, level: TileConfig): void {
+  const left = x * level.tileSize
+  const top = y * level.tileSize
+  const width = Math.min(level.tileSize, level.size - left)
+  const height = Math.min(level.tileSize, level.size - top)
+  const padded = tile.width === level.tileSize && tile.height === level.tileSize
+  if (!padded && (tile.width !== width || tile.height !== height)) {
+    throw new Error(
+      `Tile ${name}/${y}/${x} is ${tile.width}x${tile.height} but config.json expects ` +
+        `${level.tileSize}x${level.tileSize} tiles for ${level.size}px faces`,
+    )
+  }
+
+  for (let row = 0; row < height; row++) {
+    const src = row * tile.width * 4
+    face.data.set(tile.data.subarray(src, src + width * 4), ((top + row) * face.width + left) * 4)
+  }
+}
@@ -0,0 +1,270 @@
+// Privacy masking: regions drawn on the source panorama (faces, licence plates, house numbers) are blurred,
+// pixelated or filled while the cube faces are projected, so every face and every level is redacted.
+//
+// Regions live on the sphere. Each one is handled in the gnomonic (tangent-plane) projection around its
+// centre, where great-circle polygon edges become straight lines and the point-in-polygon test is exact.
+import {
+  DEFAULT_REGION_COLOR,
+  DEFAULT_REGION_STRENGTH,
+  parseHexColor,
+  type ConversionOptions,
+  type MaskRegion,
+  type SphericalPoint,
+} from "./options"
+import { accumulateBilinear } from "./sampling"
+import type { FloatImage, PixelImage } from "./projection"
+import { MIN_VERTEX_DOT, directionToPoint, dot, pointToDirection, polygonCenter, type Vec3 } from "./sphere"
+
+export { directionToPoint, pointToDirection } from "./sphere"
+
+export const REGIONS_FILE = "regions.json"
+
+const DEGREES = Math.PI / 180
+// Blur and pixelation cells span at least this many source pixels, so a small strength still hides detail
+const MIN_CELL_PIXELS = 8
+
+export function pointToEquirectangular({ yaw, pitch }: SphericalPoint): [number, number] {
+  return [yaw / 360 + 0.5, 0.5 - pitch / 180]
+}
+
+export function equirectangularToPoint(eqU: number, eqV: number): SphericalPoint {
+  return { yaw: (eqU - 0.5) * 360, pitch: (0.5 - eqV) * 180 }
+}
+
+// Tangent plane at `center`: x grows with yaw (to the right), y with pitch (upwards)
+export interface TangentFrame {
+  center: Vec3
+  east: Vec3
+  north: Vec3
+}
+
+export function tangentFrame(point: SphericalPoint): TangentFrame {
+  const y = point.yaw * DEGREES
+  const p = point.pitch * DEGREES
+  return {
+    center: pointToDirection(point),
+    east: [-Math.sin(y), 0, Math.cos(y)],
+    north: [-Math.sin(p) * Math.cos(y), Math.cos(p), -Math.sin(p) * Math.sin(y)],
+  }
+}
+
+// Tangent-plane coordinates of a direction, or null when it lies on the far hemisphere
+export function gnomonicProject(frame: TangentFrame, direction: Vec3): [number, number] | null {
+  const k = dot(direction, frame.center)
+  if (k <= 1e-6) {
+    return null
+  }
+  return [dot(direction, frame.east) / k, dot(direction, frame.north) / k]
+}
+
+export function gnomonicUnproject(frame: TangentFrame, x: number, y: number): Vec3 {
+  const { center, east, north } = frame
+  const d: Vec3 = [
+    center[0] + x * east[0] + y * north[0],
+    center[1] + x * east[1] + y * north[1],
+    center[2] + x * east[2] + y * north[2],
+  ]
+  const length = Math.hypot(...d)
+  return [d[0] / length, d[1] / length, d[2] / length]
+}
+
+// Closed outline of a region, `steps` points per polygon edge or around the ellipse, for drawing editors
+export function regionOutline(region: MaskRegion, steps = 16): SphericalPoint[] {
+  if (region.shape === "ellipse") {
+    const frame = tangentFrame(region.center)
+    const a = Math.tan(region.radiusX * DEGREES)
+    const b = Math.tan(region.radiusY * DEGREES)
+    const angle = (region.rotation ?? 0) * DEGREES
+    return Array.from({ length: steps * 4 }, (_, i) => {
+      const t = (i / (steps * 4)) * 2 * Math.PI
+      const x = a * Math.cos(t)
+      const y = b * Math.sin(t)
+      // Clockwise on screen, where y points up
+      const rx = x * Math.cos(angle) + y * Math.sin(angle)
+      const ry = -x * Math.sin(angle) + y * Math.cos(angle)
+      return directionToPoint(gnomonicUnproject(frame, rx, ry))
+    })
+  }
+
+  // Edges are great-circle arcs; walk each one in the tangent plane of its start, where it is a line
+  return region.points.flatMap((point, i) => {
+    const next = pointToDirection(region.points[(i + 1) % region.points.length])
+    const frame = tangentFrame(point)
+    const end = gnomonicProject(frame, next)
+    if (!end) {
+      return [point]
+    }
+    return Array.from({ length: steps }, (_, s) =>
+      directionToPoint(gnomonicUnproject(frame, (end[0] * s) / steps, (end[1] * s) / steps)),
+    )
+  })
+}
+
+interface CompiledRegion {
+  region: MaskRegion
+  frame: TangentFrame
+  // Smallest dot product with the centre of any point inside, for a cheap rejection test
+  minDot: number
+  contains: (x: number, y: number) => boolean
+}
+
+function insidePolygon(vertices: [number, number][], x: number, y: number): boolean {
+  let inside = false
+  for (let i = 0, j = vertices.length - 1; i < vertices.length; j = i++) {
+    const [xi, yi] = vertices[i]
+    const [xj, yj] = vertices[j]
+    if (yi > y !== yj > y && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi) {
+      inside = !inside
+    }
+  }
+  return inside
+}
+
+function compileRegion(region: MaskRegion, index: number): CompiledRegion {
+  if (region.shape === "ellipse") {
+    const a = Math.tan(region.radiusX * DEGREES)
+    const b = Math.tan(region.radiusY * DEGREES)
+    const angle = (region.rotation ?? 0) * DEGREES
+    const cos = Math.cos(angle)
+    const sin = Math.sin(angle)
+    return {
+      region,
+      frame: tangentFrame(region.center),
+      minDot: Math.cos(Math.max(region.radiusX, region.radiusY) * DEGREES),
+      contains: (x, y) => {
+        const ex = (x * cos - y * sin) / a
+        const ey = (x * sin + y * cos) / b
+        return ex * ex + ey * ey <= 1
+      },
+    }
+  }
+
+  // The options schema rejects these already; this guards callers that skip it
+  const { center, dots } = polygonCenter(region.points)
+  if (Math.min(...dots) < MIN_VERTEX_DOT) {
+    throw new Error(`Region ${index + 1} is too large: a polygon must fit within half of the sphere`)
+  }
+  const frame = tangentFrame(directionToPoint(center))
+  const vertices = region.points.map((point) => gnomonicProject(frame, pointToDirection(point))!)
+  return { region, frame, minDot: Math.min(...dots), contains: (x, y) => insidePolygon(vertices, x, y) }
+}
+
+export function compileRegions(regions: MaskRegion[] | undefined): CompiledRegion[] {
+  return (regions ?? []).map(compileRegion)
+}
+
+// Low-resolution copies of the source, averaged over cells of a given angular size, shared by every region
+// with that strength and every face projected from the same source
+const cellGrids = new WeakMap<PixelImage, Map<number, FloatImage>>()
+
+function cellGrid(source: PixelImage, cellDegrees: number): FloatImage {
+  let grids = cellGrids.get(source)
+  if (!grids) {
+    grids = new Map()
+    cellGrids.set(source, grids)
+  }
+  const cached = grids.get(cellDegrees)
+  if (cached) {
+    return cached
+  }
+
+  const width = Math.max(4, Math.min(source.width, Math.round(360 / cellDegrees)))
+  const height = Math.max(2, Math.min(source.height, Math.round(width / 2)))
+  const sums = new Float32Array(width * height * 4)
+  for (let y = 0; y < source.height; y++) {
+    const row = Math.floor((y * height) / source.height) * width
+    for (let x = 0; x < source.width; x++) {
+      const from = (y * source.width + x) * 4
+      const to = (row + Math.floor((x * width) / source.width)) * 4
+      sums[to] += source.data[from]
+      sums[to + 1] += source.data[from + 1]
+      sums[to + 2] += source.data[from + 2]
+      sums[to + 3] += 1
+    }
+  }
+  for (let i = 0; i < sums.length; i += 4) {
+    const count = sums[i + 3] || 1
+    sums[i] /= count
+    sums[i + 1] /= count
+    sums[i + 2] /= count
+    sums[i + 3] = 1
+  }
+
+  const grid = { width, height, data: sums }
+  grids.set(cellDegrees, grid)
+  return grid
+}
+
+// Cell size in degrees, never finer than MIN_CELL_PIXELS of the source
+function cellDegrees(source: PixelImage, degrees: number): number {
+  return Math.max(degrees, (MIN_CELL_PIXELS * 360) / source.width)
+}
+
+function sampleGrid(grid: FloatImage, direction: Vec3, pixel: number[]): void {
+  const [u, v] = pointToEquirectangular(directionToPoint(direction))
+  pixel[0] = pixel[1] = pixel[2] = 0
+  accumulateBilinear(grid, u * grid.width, v * grid.height, 1, pixel)
+}
+
+// Float faces carry linear light, so fill colours are converted from sRGB for them
+function srgbToLinear(c: number): number {
+  const v = c / 255
+  return v <= 0.04045 ? v / 12.92 : Math.pow((v + 0.055) / 1.055, 2.4)
+}
+
+// Replaces `pixel` when the source position (eqU, eqV) falls in a region; later regions are drawn on top
+export function redactPixel(
+  source: PixelImage,
+  regions: CompiledRegion[],
+  eqU: number,
+  eqV: number,
+  pixel: number[],
+  linear: boolean,
+): void {
+  const direction = pointToDirection(equirectangularToPoint(eqU, eqV))
+
+  for (let i = regions.length - 1; i >= 0; i--) {
+    const { region, frame, minDot, contains } = regions[i]
+    if (dot(direction, frame.center) < minDot) continue
+    const position = gnomonicProject(frame, direction)
+    if (!position || !contains(position[0], position[1])) continue
+
+    const strength = region.strength ?? DEFAULT_REGION_STRENGTH
+    if (region.effect === "fill") {
+      const color = parseHexColor(region.color ?? DEFAULT_REGION_COLOR)
+      for (let c = 0; c < 3; c++) {
+        pixel[c] = linear ? srgbToLinear(color[c]) : color[c]
+      }
+    } else if (region.effect === "pixelate") {
+      // Snap to the centre of a square cell in the region's own tangent plane, so cells do not follow
+      // the faces' or the source's pixel grid
+      const size = cellDegrees(source, strength)
+      const cell = size * DEGREES
+      const x = (Math.floor(position[0] / cell) + 0.5) * cell
+      const y = (Math.floor(position[1] / cell) + 0.5) * cell
+      sampleGrid(cellGrid(source, size), gnomonicUnproject(frame, x, y), pixel)
+    } else {
+      // Bilinear reads of cells half the radius wide give a smooth blur at a fixed cost per pixel
+      sampleGrid(cellGrid(source, cellDegrees(source, strength / 2)), direction, pixel)
+    }
+    return
+  }
+}
+
+// Written to the ZIP next to config.json as a record of what was redacted
+export function regionsRecord(options: ConversionOptions) {
+  if (!options.regions || options.regions.length === 0) {
+    return undefined
+  }
+  return {
+    format: "privacy-regions",
+    coordinates:
+      "Degrees on the source panorama: yaw 0 is its centre column and grows to the right, pitch 0 is the " +
+      "horizon and grows upwards. Polygon edges are great-circle arcs; ellipse radii are angular.",
+    regions: options.regions.map((region) => ({
+      ...region,
+      strength: region.effect === "fill" ? undefined : (region.strength ?? DEFAULT_REGION_STRENGTH),
+      color: region.effect === "fill" ? (region.color ?? DEFAULT_REGION_COLOR) : undefined,
+    })),
+  }
+}
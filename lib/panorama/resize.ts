@@ -0,0 +1,122 @@
+// Separable image downsampling used to derive the lower zoom levels from the top-level face.
+import { createFloatImage, createRGBAImage, type FloatImage, type PixelImage, type RGBAImage } from "./projection"
+
+export type DownsampleFilter = "box" | "lanczos3"
+
+interface Contribution {
+  start: number
+  weights: Float32Array
+}
+
+function sinc(x: number): number {
+  if (x === 0) {
+    return 1
+  }
+  const px = Math.PI * x
+  return Math.sin(px) / px
+}
+
+const KERNELS: Record<DownsampleFilter, { radius: number; kernel: (x: number) => number }> = {
+  box: { radius: 0.5, kernel: (x) => (x >= -0.5 && x < 0.5 ? 1 : 0) },
+  lanczos3: { radius: 3, kernel: (x) => (Math.abs(x) < 3 ? sinc(x) * sinc(x / 3) : 0) },
+}
+
+// Precomputes, for every output pixel along one axis, which source pixels contribute and with what weight.
+// The kernel is stretched by the scale factor so every source pixel is covered when shrinking.
+function computeContributions(sourceSize: number, targetSize: number, filter: DownsampleFilter): Contribution[] {
+  const { radius, kernel } = KERNELS[filter]
+  const scale = Math.max(1, sourceSize / targetSize)
+  const ratio = sourceSize / targetSize
+  const support = radius * scale
+  const contributions: Contribution[] = []
+
+  for (let i = 0; i < targetSize; i++) {
+    const center = (i + 0.5) * ratio
+    const start = Math.max(0, Math.floor(center - support))
+    const end = Math.min(sourceSize, Math.ceil(center + support))
+    const weights = new Float32Array(end - start)
+
+    let sum = 0
+    for (let j = start; j < end; j++) {
+      const weight = kernel((j + 0.5 - center) / scale)
+      weights[j - start] = weight
+      sum += weight
+    }
+    if (sum !== 0) {
+      for (let k = 0; k < weights.length; k++) {
+        weights[k] /= sum
+      }
+    }
+    contributions.push({ start, weights })
+  }
+
+  return contributions
+}
+
+export function downsampleImage(image: RGBAImage, width: number, height: number, filter?: DownsampleFilter): RGBAImage
+export function downsampleImage(image: FloatImage, width: number, height: number, filter?: DownsampleFilter): FloatImage
+export function downsampleImage(
+  image: PixelImage,
+  width: number,
+  height: number,
+  filter: DownsampleFilter = "box",
+): PixelImage {
+  if (image.width === width && image.height === height) {
+    return image
+  }
+
+  // Horizontal pass into a float buffer, then vertical pass into the output
+  const horizontal = computeContributions(image.width, width, filter)
+  const intermediate = new Float32Array(width * image.height * 4)
+  for (let y = 0; y < image.height; y++) {
+    const rowIn = y * image.width * 4
+    const rowOut = y * width * 4
+    for (let x = 0; x < width; x++) {
+      const { start, weights } = horizontal[x]
+      let r = 0
+      let g = 0
+      let b = 0
+      let a = 0
+      for (let k = 0; k < weights.length; k++) {
+        const idx = rowIn + (start + k) * 4
+        const w = weights[k]
+        r += image.data[idx] * w
+        g += image.data[idx + 1] * w
+        b += image.data[idx + 2] * w
+        a += image.data[idx + 3] * w
+      }
+      const out = rowOut + x * 4
+      intermediate[out] = r
+      intermediate[out + 1] = g
+      intermediate[out + 2] = b
+      intermediate[out + 3] = a
+    }
+  }
+
+  const vertical = computeContributions(image.height, height, filter)
+  const result = image.data instanceof Float32Array ? createFloatImage(width, height) : createRGBAImage(width, height)
+  for (let y = 0; y < height; y++) {
+    const { start, weights } = vertical[y]
+    for (let x = 0; x < width; x++) {
+      let r = 0
+      let g = 0
+      let b = 0
+      let a = 0
+      for (let k = 0; k < weights.length; k++) {
+        const idx = ((start + k) * width + x) * 4
+        const w = weights[k]
+        r += intermediate[idx] * w
+        g += intermediate[idx + 1] * w
+        b += intermediate[idx + 2] * w
+        a += intermediate[idx + 3] * w
+      }
+      const out = (y * width + x) * 4
+      result.data[out] = r
+      result.data[out + 1] = g
+      result.data[out + 2] = b
+      result.data[out + 3] = a
+    }
+  }
+
+  return result
+}
@@ -0,0 +1,182 @@
+// Reconstruction filters for sampling the equirectangular source.
+// Every tap takes pixel coordinates (pixel centres at +0.5), wraps horizontally across the ±180° meridian,
+// clamps vertically at the poles and adds its weighted colour into `accum`.
+import type { ResamplingFilter } from "./options"
+import type { PixelImage } from "./projection"
+
+export type TapFunction = (source: PixelImage, px: number, py: number, weight: number, accum: number[]) => void
+
+function wrapX(x: number, width: number): number {
+  return ((x % width) + width) % width
+}
+
+function clampY(y: number, height: number): number {
+  return Math.max(0, Math.min(height - 1, y))
+}
+
+export function accumulateNearest(source: PixelImage, px: number, py: number, weight: number, accum: number[]): void {
+  const { width, height, data } = source
+  const idx = (clampY(Math.floor(py), height) * width + wrapX(Math.floor(px), width)) * 4
+
+  accum[0] += data[idx] * weight
+  accum[1] += data[idx + 1] * weight
+  accum[2] += data[idx + 2] * weight
+}
+
+export function accumulateBilinear(source: PixelImage, px: number, py: number, weight: number, accum: number[]): void {
+  const { width, height, data } = source
+
+  const fx0 = px - 0.5
+  const fy0 = Math.max(0, Math.min(height - 1, py - 0.5))
+  const xFloor = Math.floor(fx0)
+  const y1 = Math.floor(fy0)
+
+  const x1 = wrapX(xFloor, width)
+  const x2 = (x1 + 1) % width
+  const y2 = Math.min(y1 + 1, height - 1)
+
+  const fx = fx0 - xFloor
+  const fy = fy0 - y1
+
+  const i11 = (y1 * width + x1) * 4
+  const i21 = (y1 * width + x2) * 4
+  const i12 = (y2 * width + x1) * 4
+  const i22 = (y2 * width + x2) * 4
+
+  const w11 = (1 - fx) * (1 - fy) * weight
+  const w21 = fx * (1 - fy) * weight
+  const w12 = (1 - fx) * fy * weight
+  const w22 = fx * fy * weight
+
+  for (let c = 0; c < 3; c++) {
+    accum[c] += data[i11 + c] * w11 + data[i21 + c] * w21 + data[i12 + c] * w12 + data[i22 + c] * w22
+  }
+}
+
+export function sampleEquirectangularBilinear(source: PixelImage, u: number, v: number): [number, number, number] {
+  const accum = [0, 0, 0]
+  accumulateBilinear(source, u * source.width, v * source.height, 1, accum)
+  return [Math.round(accum[0]), Math.round(accum[1]), Math.round(accum[2])]
+}
+
+// Keys cubic convolution kernel with a = -0.5 (Catmull-Rom)
+function cubicKernel(x: number): number {
+  const a = -0.5
+  x = Math.abs(x)
+  if (x <= 1) {
+    return ((a + 2) * x - (a + 3)) * x * x + 1
+  }
+  if (x < 2) {
+    return ((a * x - 5 * a) * x + 8 * a) * x - 4 * a
+  }
+  return 0
+}
+
+function sinc(x: number): number {
+  if (x === 0) {
+    return 1
+  }
+  const px = Math.PI * x
+  return Math.sin(px) / px
+}
+
+function lanczos3Kernel(x: number): number {
+  return Math.abs(x) < 3 ? sinc(x) * sinc(x / 3) : 0
+}
+
+const kernelWeightsX = new Float64Array(6)
+const kernelWeightsY = new Float64Array(6)
+
+// Separable kernel tap over a (2 * radius)^2 neighbourhood, normalised so flat areas stay flat.
+function accumulateKernel(
+  source: PixelImage,
+  px: number,
+  py: number,
+  weight: number,
+  accum: number[],
+  kernel: (x: number) => number,
+  radius: number,
+): void {
+  const { width, height, data } = source
+  const taps = radius * 2
+
+  const fx0 = px - 0.5
+  const fy0 = py - 0.5
+  const xBase = Math.floor(fx0) - radius + 1
+  const yBase = Math.floor(fy0) - radius + 1
+
+  let sumX = 0
+  let sumY = 0
+  for (let i = 0; i < taps; i++) {
+    kernelWeightsX[i] = kernel(fx0 - (xBase + i))
+    kernelWeightsY[i] = kernel(fy0 - (yBase + i))
+    sumX += kernelWeightsX[i]
+    sumY += kernelWeightsY[i]
+  }
+  const norm = weight / (sumX * sumY)
+
+  for (let j = 0; j < taps; j++) {
+    const rowOffset = clampY(yBase + j, height) * width
+    const wy = kernelWeightsY[j] * norm
+    for (let i = 0; i < taps; i++) {
+      const idx = (rowOffset + wrapX(xBase + i, width)) * 4
+      const w = kernelWeightsX[i] * wy
+      accum[0] += data[idx] * w
+      accum[1] += data[idx + 1] * w
+      accum[2] += data[idx + 2] * w
+    }
+  }
+}
+
+export function accumulateBicubic(source: PixelImage, px: number, py: number, weight: number, accum: number[]): void {
+  accumulateKernel(source, px, py, weight, accum, cubicKernel, 2)
+}
+
+export function accumulateLanczos3(source: PixelImage, px: number, py: number, weight: number, accum: number[]): void {
+  accumulateKernel(source, px, py, weight, accum, lanczos3Kernel, 3)
+}
+
+// Supersampling uses bilinear taps at each sub-pixel position
+export const TAP_FUNCTIONS: Record<ResamplingFilter, TapFunction> = {
+  nearest: accumulateNearest,
+  bilinear: accumulateBilinear,
+  bicubic: accumulateBicubic,
+  lanczos3: accumulateLanczos3,
+  supersample: accumulateBilinear,
+}
+
+const MAX_AREA_TAPS = 256
+
+// Averages filter taps over the footprint of one output pixel, given its angular size in radians.
+// Towards the zenith and nadir a pixel spans many source columns (1 / sin(phi) more than at the equator),
+// so the horizontal footprint widens there instead of point-sampling and aliasing.
+export function sampleEquirectangularArea(
+  source: PixelImage,
+  u: number,
+  v: number,
+  angularSize: number,
+  accum: number[],
+  tap: TapFunction = accumulateBilinear,
+): void {
+  const { width, height } = source
+  const sinPhi = Math.max(Math.sin(v * Math.PI), 1e-6)
+
+  const footprintX = Math.min(width, (angularSize * width) / (2 * Math.PI * sinPhi))
+  const footprintY = (angularSize * height) / Math.PI
+
+  const tapsX = Math.min(MAX_AREA_TAPS, Math.max(1, Math.round(footprintX)))
+  const tapsY = Math.min(MAX_AREA_TAPS, Math.max(1, Math.round(footprintY)))
+  const weight = 1 / (tapsX * tapsY)
+
+  const centerX = u * width
+  const centerY = v * height
+
+  accum[0] = accum[1] = accum[2] = 0
+  for (let ty = 0; ty < tapsY; ty++) {
+    const py = tapsY === 1 ? centerY : centerY + ((ty + 0.5) / tapsY - 0.5) * footprintY
+    for (let tx = 0; tx < tapsX; tx++) {
+      const px = tapsX === 1 ? centerX : centerX + ((tx + 0.5) / tapsX - 0.5) * footprintX
+      tap(source, px, py, weight, accum)
+    }
+  }
+}
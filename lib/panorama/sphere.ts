@@ -0,0 +1,43 @@
+// Directions on the unit sphere for points given in degrees. Shared by the options schema, which checks region
+// shapes up front, and regions.ts, which depends on the options module and so cannot be imported by it.
+import type { SphericalPoint } from "./options"
+
+export type Vec3 = [number, number, number]
+
+const DEGREES = Math.PI / 180
+// Polygon vertices must stay this far in front of the polygon's centre for its tangent plane to hold them
+export const MIN_VERTEX_DOT = 0.05
+
+// Same frame as the projection: yaw 0 / pitch 0 is the source's centre column on the horizon
+export function pointToDirection({ yaw, pitch }: SphericalPoint): Vec3 {
+  const y = yaw * DEGREES
+  const p = pitch * DEGREES
+  return [Math.cos(p) * Math.cos(y), Math.sin(p), Math.cos(p) * Math.sin(y)]
+}
+
+export function directionToPoint([x, y, z]: Vec3): SphericalPoint {
+  const length = Math.hypot(x, y, z)
+  return { yaw: Math.atan2(z, x) / DEGREES, pitch: Math.asin(Math.max(-1, Math.min(1, y / length))) / DEGREES }
+}
+
+export function dot(a: Vec3, b: Vec3): number {
+  return a[0] * b[0] + a[1] * b[1] + a[2] * b[2]
+}
+
+export function normalize(v: Vec3): Vec3 {
+  const length = Math.hypot(...v)
+  return [v[0] / length, v[1] / length, v[2] / length]
+}
+
+// A polygon is handled around the mean of its vertices; `dots` says how far in front of it each vertex lies
+export function polygonCenter(points: SphericalPoint[]): { center: Vec3; dots: number[] } {
+  const directions = points.map(pointToDirection)
+  const center = normalize(
+    directions.reduce<Vec3>((sum, d) => [sum[0] + d[0], sum[1] + d[1], sum[2] + d[2]], [0, 0, 0]),
+  )
+  return { center, dots: directions.map((d) => dot(d, center)) }
+}
+
+export function fitsTangentPlane(points: SphericalPoint[]): boolean {
+  return Math.min(...polygonCenter(points).dots) >= MIN_VERTEX_DOT
+}
@@ -0,0 +1,77 @@
+// Where the viewer reads tiles from: the blobs a browser conversion keeps, or the ZIP the API returns. Tiles
+// are always asked for by their Marzipano path, whatever layout the ZIP was written in.
+import JSZip from "jszip"
+import { z } from "zod"
+import { TILE_FORMAT_INFO } from "./formats"
+import {
+  CUBE_PROJECTIONS,
+  DEFAULT_CUBE_PROJECTION,
+  TILE_FORMATS,
+  TILE_TARGETS,
+  type ConversionOptions,
+  type CubeProjection,
+} from "./options"
+import { parseTilePath, tileFilePath, type TileConfig } from "./tiles"
+
+export interface TileSource {
+  tileConfigs: TileConfig[]
+  projection: CubeProjection
+  // Encoded tile at its Marzipano path ({z}/{f}/{y}/{x}, no extension), or null when there is none
+  loadTile: (path: string) => Promise<Blob | null>
+}
+
+// Only the fields needed to find the tiles; settings.requested echoes the options, including the tile target
+const tileArchiveConfigSchema = z.object({
+  projection: z.enum(CUBE_PROJECTIONS).optional(),
+  tileConfigs: z
+    .array(
+      z.object({
+        tileSize: z.number().int().positive(),
+        size: z.number().int().positive(),
+        fallbackOnly: z.boolean().optional(),
+      }),
+    )
+    .nonempty(),
+  settings: z.object({
+    tileFormat: z.enum(TILE_FORMATS),
+    requested: z.object({ tileTarget: z.enum(TILE_TARGETS).optional() }).passthrough(),
+  }),
+})
+
+export function memoryTileSource(
+  tiles: Record<string, Blob>,
+  tileConfigs: TileConfig[],
+  options: ConversionOptions,
+): TileSource {
+  return {
+    tileConfigs,
+    projection: options.cubeProjection ?? DEFAULT_CUBE_PROJECTION,
+    loadTile: async (path) => tiles[path] ?? null,
+  }
+}
+
+// Tiles are extracted lazily, as the viewer asks for them
+export async function zipTileSource(archive: Blob): Promise<TileSource> {
+  const zip = await JSZip.loadAsync(archive)
+  const configFile = zip.file("config.json")
+  if (!configFile) {
+    throw new Error("config.json not found in the ZIP; it is needed to know the level and tile sizes")
+  }
+
+  const parsed = tileArchiveConfigSchema.safeParse(JSON.parse(await configFile.async("string")))
+  if (!parsed.success) {
+    throw new Error("config.json does not describe a tile pyramid")
+  }
+  const { projection, tileConfigs, settings } = parsed.data
+  const options: ConversionOptions = { tileTarget: settings.requested.tileTarget }
+  const extension = TILE_FORMAT_INFO[settings.tileFormat].extension
+
+  return {
+    tileConfigs,
+    projection: projection ?? DEFAULT_CUBE_PROJECTION,
+    loadTile: async (path) => {
+      const file = zip.file(`${tileFilePath(parseTilePath(path), tileConfigs, options)}.${extension}`)
+      return file ? file.async("blob") : null
+    },
+  }
+}
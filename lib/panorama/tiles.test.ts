@@ -0,0 +1,43 @@
+import { describe, expect, it } from "vitest"
+import { conversionOptionsSchema } from "./options"
+import { computeTileConfigs } from "./tiles"
+
+const sizes = (sourceWidth: number, options = {}) => computeTileConfigs(sourceWidth, options).map((c) => c.size)
+
+describe("computeTileConfigs", () => {
+  it("doubles from the tile size up to the native face size", () => {
+    // 8192 / π ≈ 2608, closest to 2048
+    expect(sizes(8192)).toEqual([256, 512, 1024, 2048])
+    expect(computeTileConfigs(8192)[0].fallbackOnly).toBe(true)
+  })
+
+  it("does not upscale small sources", () => {
+    expect(sizes(1024, { tileTarget: "krpano" })).toEqual([512])
+  })
+
+  it("stores levels smaller than a tile as a single tile", () => {
+    expect(computeTileConfigs(1024, { levelSizes: [256, 1024] })).toEqual([
+      { tileSize: 256, size: 256 },
+      { tileSize: 512, size: 1024 },
+    ])
+  })
+
+  it("keeps every level within maxFaceSize", () => {
+    for (const options of [
+      { maxFaceSize: 1500 },
+      { maxFaceSize: 512 },
+      { minFaceSize: 600, maxFaceSize: 1024 },
+    ]) {
+      for (const size of sizes(16384, options)) {
+        expect(size).toBeLessThanOrEqual(options.maxFaceSize)
+      }
+    }
+    expect(sizes(16384, { minFaceSize: 600, maxFaceSize: 1024, tileTarget: "krpano" })).toEqual([1024])
+  })
+
+  it("rejects a minFaceSize that rounds up past maxFaceSize", () => {
+    const parsed = conversionOptionsSchema.safeParse({ minFaceSize: 600, maxFaceSize: 800 })
+    expect(parsed.success).toBe(false)
+    expect(parsed.error?.issues[0].path).toEqual(["minFaceSize"])
+  })
+})
@@ -0,0 +1,301 @@
+import { resolveTileEncoding, tileStructure } from "./formats"
+import type { GPanoMetadata } from "./gpano"
+import { resolveToneMapping, type HDRFormat } from "./hdr"
+import { hotspotsRecord } from "./hotspots"
+import { KRPANO_TOUR_FILE, krpanoTilePath } from "./krpano"
+import {
+  DEFAULT_CUBE_PROJECTION,
+  DEFAULT_FILTER,
+  DEFAULT_SUPERSAMPLING,
+  DEFAULT_TILE_SIZE,
+  DEFAULT_TILE_TARGET,
+  baseFaceSize,
+  type ConversionOptions,
+  type TileTarget,
+} from "./options"
+import { nadirConfig, patchNadir } from "./nadir"
+import { PANNELLUM_FALLBACK_SIZE, createPannellumMultiRes, pannellumHotSpots, pannellumTilePath } from "./pannellum"
+import { orientationConfig } from "./orientation"
+import { FACE_NAMES, createRGBAImage, generateCubeFace, type FaceName, type RGBAImage } from "./projection"
+import { downsampleImage, type DownsampleFilter } from "./resize"
+
+export interface TileConfig {
+  tileSize: number
+  size: number
+  fallbackOnly?: boolean
+}
+
+export const FALLBACK_LEVEL: TileConfig = { tileSize: 256, size: 256, fallbackOnly: true }
+
+// Face size that roughly matches the source's angular resolution across the whole face
+// (width / 4 at the face centre, width / 2 at its edges).
+export function nativeFaceSize(sourceWidth: number): number {
+  return Math.round(sourceWidth / Math.PI)
+}
+
+// Single-size outputs (environment maps, cubemap images) default to the power of two closest to the
+// native face size, which is what engines expect
+export function outputFaceSize(sourceWidth: number, options: ConversionOptions = {}): number {
+  return options.outputFaceSize ?? Math.pow(2, Math.round(Math.log2(nativeFaceSize(sourceWidth))))
+}
+
+// Levels smaller than a tile are stored as a single tile of their own size.
+function levelConfig(size: number, tileSize: number): TileConfig {
+  return { tileSize: Math.min(tileSize, size), size }
+}
+
+// Resolves the conversion options into the list of levels to generate. Without explicit `levelSizes`
+// the levels double from the tile size up to the power-of-two multiple closest to the native face size,
+// so small sources are not upscaled and large ones are not thrown away.
+export function computeTileConfigs(sourceWidth: number, options: ConversionOptions = {}): TileConfig[] {
+  const tileSize = options.tileSize ?? DEFAULT_TILE_SIZE
+  let levels: TileConfig[]
+
+  if (options.levelSizes) {
+    const sizes = Array.from(new Set(options.levelSizes)).sort((a, b) => a - b)
+    levels = sizes.map((size) => levelConfig(size, tileSize))
+  } else {
+    // The options schema makes sure this stays within maxFaceSize
+    const baseSize = baseFaceSize(tileSize, options.minFaceSize)
+
+    let targetSize = nativeFaceSize(sourceWidth)
+    if (options.maxFaceSize !== undefined) {
+      targetSize = Math.min(targetSize, options.maxFaceSize)
+    }
+
+    const doublings = Math.max(0, Math.round(Math.log2(targetSize / baseSize)))
+    let topSize = baseSize * 2 ** doublings
+    while (options.maxFaceSize !== undefined && topSize > options.maxFaceSize && topSize > baseSize) {
+      topSize /= 2
+    }
+
+    levels = []
+    for (let size = baseSize; size <= topSize; size *= 2) {
+      levels.push(levelConfig(size, tileSize))
+    }
+  }
+
+  // The fallback level is only useful when it is smaller than every real level, and only Marzipano asks for it
+  // by default. Pannellum's fallback is six whole faces for its CSS renderer instead.
+  const target = options.tileTarget ?? DEFAULT_TILE_TARGET
+  const includeFallback = options.includeFallback ?? target === "marzipano"
+  if (includeFallback && target === "pannellum") {
+    const size = Math.min(PANNELLUM_FALLBACK_SIZE, levels[levels.length - 1].size)
+    levels.unshift({ tileSize: size, size, fallbackOnly: true })
+  } else if (includeFallback && levels[0].size > FALLBACK_LEVEL.size) {
+    levels.unshift({ ...FALLBACK_LEVEL })
+  }
+  return levels
+}
+
+export interface SourceInfo {
+  width: number
+  height: number
+  hdrFormat?: HDRFormat | null
+  // Width and height above are of the full sphere once a GPano crop has been placed on it
+  gpano?: GPanoMetadata | null
+}
+
+export interface CubemapTile {
+  z: number
+  face: FaceName
+  y: number
+  x: number
+  image: RGBAImage
+}
+
+export interface CubemapSummary {
+  totalTiles: number
+  zoomLevels: number
+  maxZoom: number
+}
+
+export function tilePath(tile: Pick<CubemapTile, "z" | "face" | "y" | "x">): string {
+  return `${tile.z}/${tile.face}/${tile.y}/${tile.x}`
+}
+
+// Path of a tile inside the ZIP, without the extension, in the layout of the chosen viewer
+export function tileFilePath(
+  tile: Pick<CubemapTile, "z" | "face" | "y" | "x">,
+  tileConfigs: TileConfig[],
+  options: ConversionOptions,
+): string {
+  const target = options.tileTarget ?? DEFAULT_TILE_TARGET
+  if (target === "krpano") {
+    return krpanoTilePath(tile)
+  }
+  return target === "pannellum" ? pannellumTilePath(tile, tileConfigs) : tilePath(tile)
+}
+
+// Inverse of tilePath, for tiles collected in the browser under their Marzipano keys
+export function parseTilePath(path: string): Pick<CubemapTile, "z" | "face" | "y" | "x"> {
+  const [z, face, y, x] = path.split("/")
+  return { z: Number(z), face: face as FaceName, y: Number(y), x: Number(x) }
+}
+
+export function countTiles(tileConfigs: TileConfig[]): number {
+  return tileConfigs.reduce((total, config) => {
+    const tilesPerSide = Math.ceil(config.size / config.tileSize)
+    return total + 6 * tilesPerSide * tilesPerSide
+  }, 0)
+}
+
+// Copies one tile out of a face. Edge tiles are padded with opaque black so every tile is tileSize x tileSize.
+export function extractTile(faceImage: RGBAImage, tileX: number, tileY: number, tileSize: number): RGBAImage {
+  const tile = createRGBAImage(tileSize, tileSize)
+  const out = tile.data
+
+  for (let i = 3; i < out.length; i += 4) {
+    out[i] = 255
+  }
+
+  const sourceX = tileX * tileSize
+  const sourceY = tileY * tileSize
+  const sourceWidth = Math.max(0, Math.min(tileSize, faceImage.width - sourceX))
+  const sourceHeight = Math.max(0, Math.min(tileSize, faceImage.height - sourceY))
+
+  for (let y = 0; y < sourceHeight; y++) {
+    const start = ((sourceY + y) * faceImage.width + sourceX) * 4
+    out.set(faceImage.data.subarray(start, start + sourceWidth * 4), y * tileSize * 4)
+  }
+
+  return tile
+}
+
+// Lanczos keeps the lower levels as sharp as the sharper projection filters; box averaging suits the rest.
+function downsampleFilterFor(options: ConversionOptions): DownsampleFilter {
+  return options.filter === "lanczos3" || options.filter === "bicubic" ? "lanczos3" : "box"
+}
+
+// Projects one face once at the largest level and builds every smaller level by downsampling the
+// next larger one, so all levels stay consistent and all show the nadir patch drawn on the down face.
+// Tiles are yielded largest level first, and lazily: nothing past the current tile is encoded until the
+// consumer asks for it.
+export function* faceTiles(
+  source: RGBAImage,
+  face: number,
+  tileConfigs: TileConfig[],
+  options: ConversionOptions,
+  nadirLogo: RGBAImage | null = null,
+): Generator<CubemapTile> {
+  const levels = tileConfigs.map((config, z) => ({ config, z })).sort((a, b) => b.config.size - a.config.size)
+  const filter = downsampleFilterFor(options)
+  let faceImage: RGBAImage | null = null
+
+  for (const { config, z } of levels) {
+    faceImage = faceImage
+      ? downsampleImage(faceImage, config.size, config.size, filter)
+      : patchNadir(generateCubeFace(source, face, config.size, options), face, options, nadirLogo)
+    const tilesPerSide = Math.ceil(config.size / config.tileSize)
+
+    // Split face into tiles
+    for (let y = 0; y < tilesPerSide; y++) {
+      for (let x = 0; x < tilesPerSide; x++) {
+        yield { z, face: FACE_NAMES[face], y, x, image: extractTile(faceImage, x, y, config.tileSize) }
+      }
+    }
+  }
+}
+
+export async function generateCubemapTiles(
+  source: RGBAImage,
+  tileConfigs: TileConfig[],
+  options: ConversionOptions,
+  nadirLogo: RGBAImage | null,
+  onTile: (tile: CubemapTile) => Promise<void> | void,
+  onProgress?: (progress: number) => void,
+): Promise<CubemapSummary> {
+  const maxZoom = tileConfigs.length - 1
+  const totalTiles = countTiles(tileConfigs)
+  let processedTiles = 0
+
+  for (let face = 0; face < 6; face++) {
+    for (const tile of faceTiles(source, face, tileConfigs, options, nadirLogo)) {
+      await onTile(tile)
+
+      processedTiles++
+      if (onProgress) {
+        onProgress((processedTiles / totalTiles) * 100)
+      }
+    }
+  }
+
+  return { totalTiles, zoomLevels: maxZoom + 1, maxZoom }
+}
+
+const TARGET_FORMATS: Record<TileTarget, string> = {
+  marzipano: "marzipano-cubemap",
+  krpano: "krpano-multires",
+  pannellum: "pannellum-multires",
+}
+
+const TARGET_TILE_NOTES: Record<TileTarget, string> = {
+  marzipano: "where f = r,l,u,d,f,b",
+  krpano: "where %s = l,f,r,b,u,d and %l, %v, %h count from 1",
+  pannellum: "where %s = f,r,b,l,u,d, %l counts from 1 and %y, %x from 0",
+}
+
+const TARGET_DESCRIPTIONS: Record<TileTarget, string> = {
+  marzipano: "Marzipano cubemap",
+  krpano: "krpano multires",
+  pannellum: "Pannellum multires",
+}
+
+export function createCubemapConfig(
+  source: SourceInfo,
+  tileConfigs: TileConfig[],
+  options: ConversionOptions = {},
+) {
+  const levels = tileConfigs.filter((config) => !config.fallbackOnly)
+  const encoding = resolveTileEncoding(options)
+  const nadir = nadirConfig(options)
+  const target = options.tileTarget ?? DEFAULT_TILE_TARGET
+  const hotspots = hotspotsRecord(options)
+
+  return {
+    format: TARGET_FORMATS[target],
+    tileStructure: `${tileStructure(encoding, target)} (${TARGET_TILE_NOTES[target]})`,
+    ...(target === "krpano" && { tour: KRPANO_TOUR_FILE }),
+    // Pannellum reads these and ignores the rest, so config.json loads as is
+    ...(target === "pannellum" && {
+      type: "multires",
+      hfov: 100,
+      autoLoad: true,
+      multiRes: createPannellumMultiRes(tileConfigs, encoding),
+      ...(hotspots && { hotSpots: pannellumHotSpots(options) }),
+    }),
+    faceMapping: {
+      r: "right (+X)",
+      l: "left (-X)",
+      u: "up (+Y)",
+      d: "down (-Y)",
+      f: "front (+Z)",
+      b: "back (-Z)",
+    },
+    // "eac" faces store the angle, not the tangent: a viewer maps its face coordinate c to (4 / π) * atan(c)
+    projection: options.cubeProjection ?? DEFAULT_CUBE_PROJECTION,
+    sourceSize: { width: source.width, height: source.height },
+    ...(source.hdrFormat && { sourceFormat: source.hdrFormat }),
+    ...(source.gpano && { gpano: source.gpano }),
+    orientation: orientationConfig(options, source.gpano),
+    ...(nadir && { nadir }),
+    nativeFaceSize: nativeFaceSize(source.width),
+    faceSize: tileConfigs[tileConfigs.length - 1].size,
+    settings: {
+      tileSize: levels[levels.length - 1].tileSize,
+      levelSizes: levels.map((config) => config.size),
+      includeFallback: tileConfigs.some((config) => config.fallbackOnly),
+      filter: options.filter ?? DEFAULT_FILTER,
+      ...(options.filter === "supersample" && { supersampling: options.supersampling ?? DEFAULT_SUPERSAMPLING }),
+      tileFormat: encoding.format,
+      ...(encoding.quality !== undefined && { quality: encoding.quality }),
+      lossless: encoding.lossless,
+      ...(source.hdrFormat && { toneMapping: resolveToneMapping(options) }),
+      requested: options,
+    },
+    tileConfigs,
+    ...(hotspots && { hotspots }),
+    description:
+      `${TARGET_DESCRIPTIONS[target]} tiles generated from panoramic image with maximum quality preservation`,
+  }
+}
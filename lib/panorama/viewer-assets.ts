@@ -0,0 +1,17 @@
+// Node-side copies of the viewer scripts bundled into exported tours, read from the installed packages so the
+// tours work offline.
+import { readFile } from "node:fs/promises"
+import path from "node:path"
+
+let marzipanoScript: Promise<string> | null = null
+
+// A failed read is not cached, so the next export tries again
+export function readMarzipanoScript(): Promise<string> {
+  marzipanoScript ??= readFile(path.join(process.cwd(), "node_modules/marzipano/dist/marzipano.js"), "utf8").catch(
+    (error) => {
+      marzipanoScript = null
+      throw error
+    },
+  )
+  return marzipanoScript
+}
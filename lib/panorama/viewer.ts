@@ -0,0 +1,615 @@
+// Interactive viewer for the converted tile pyramids. WebGL draws every tile as its own quad, choosing the level
+// that matches the field of view and loading only the tiles in sight; coarser levels stay underneath until the
+// finer tiles arrive. Without WebGL, CSS 3D transforms place six whole faces around the camera instead.
+//
+// Angles are in radians in the cube's frame: yaw 0 / pitch 0 looks at the front face (+Z), yaw grows to the
+// right (towards +X) and pitch upwards. `fov` is vertical.
+import { FACE_NAMES, eacToFace, faceDirection, faceToEAC } from "./projection"
+import type { TileSource } from "./tile-source"
+import { tilePath, type TileConfig } from "./tiles"
+
+type Vec3 = [number, number, number]
+
+export interface ViewState {
+  yaw: number
+  pitch: number
+  fov: number
+}
+
+const DEGREES = Math.PI / 180
+export const MIN_FOV = 30 * DEGREES
+export const MAX_FOV = 120 * DEGREES
+export const DEFAULT_VIEW: ViewState = { yaw: 0, pitch: 0, fov: 90 * DEGREES }
+
+// Textures kept besides the base level; the ones not drawn for longest are dropped first
+const MAX_TEXTURES = 256
+const MAX_CONCURRENT_LOADS = 4
+// Largest level the CSS fallback builds its faces from
+const CSS_FACE_SIZE = 1024
+
+export function clampView(view: ViewState): ViewState {
+  const yaw = ((((view.yaw + Math.PI) % (2 * Math.PI)) + 2 * Math.PI) % (2 * Math.PI)) - Math.PI
+  return {
+    yaw,
+    pitch: Math.max(-Math.PI / 2, Math.min(Math.PI / 2, view.pitch)),
+    fov: Math.max(MIN_FOV, Math.min(MAX_FOV, view.fov)),
+  }
+}
+
+interface Camera {
+  right: Vec3
+  up: Vec3
+  forward: Vec3
+  // Half extents of the view on the plane one unit ahead
+  tanX: number
+  tanY: number
+}
+
+function createCamera(view: ViewState, aspect: number): Camera {
+  const cy = Math.cos(view.yaw)
+  const sy = Math.sin(view.yaw)
+  const cp = Math.cos(view.pitch)
+  const sp = Math.sin(view.pitch)
+  const tanY = Math.tan(view.fov / 2)
+  return {
+    right: [cy, 0, -sy],
+    up: [-sy * sp, cp, -cy * sp],
+    forward: [sy * cp, sp, cy * cp],
+    tanX: tanY * aspect,
+    tanY,
+  }
+}
+
+function dot(a: Vec3, b: Vec3): number {
+  return a[0] * b[0] + a[1] * b[1] + a[2] * b[2]
+}
+
+// The smallest level overall is loaded for every face, so there is always something to show
+function baseLevel(tileConfigs: TileConfig[]): number {
+  return tileConfigs.reduce((best, config, z) => (config.size < tileConfigs[best].size ? z : best), 0)
+}
+
+// Levels a view may pick, smallest first; the fallback level is only ever drawn underneath
+function viewLevels(tileConfigs: TileConfig[]): number[] {
+  return tileConfigs
+    .map((_, z) => z)
+    .filter((z) => !tileConfigs[z].fallbackOnly)
+    .sort((a, b) => tileConfigs[a].size - tileConfigs[b].size)
+}
+
+// The smallest level with at least one face pixel per screen pixel at the centre of the view, else the largest.
+// A face spans two units of the tangent plane and the screen's height spans 2 * tan(fov / 2).
+export function levelForView(tileConfigs: TileConfig[], fov: number, screenHeight: number): number {
+  const needed = screenHeight / Math.tan(fov / 2)
+  const levels = viewLevels(tileConfigs)
+  return levels.find((z) => tileConfigs[z].size >= needed) ?? levels[levels.length - 1]
+}
+
+interface ViewerTile {
+  path: string
+  face: number
+  // Stored face coordinates in [-1, 1] of the tile's edges, and the span of a whole tile. Edge tiles padded
+  // to the tile size keep the full span for their texture, so their padding falls outside the face.
+  left: number
+  top: number
+  span: number
+  right: number
+  bottom: number
+}
+
+function levelTiles(tileConfigs: TileConfig[], z: number): ViewerTile[] {
+  const { size, tileSize } = tileConfigs[z]
+  const tilesPerSide = Math.ceil(size / tileSize)
+  const span = (2 * tileSize) / size
+  const tiles: ViewerTile[] = []
+  FACE_NAMES.forEach((face, index) => {
+    for (let y = 0; y < tilesPerSide; y++) {
+      for (let x = 0; x < tilesPerSide; x++) {
+        tiles.push({
+          path: tilePath({ z, face, y, x }),
+          face: index,
+          left: -1 + x * span,
+          top: -1 + y * span,
+          span,
+          right: Math.min(1, -1 + (x + 1) * span),
+          bottom: Math.min(1, -1 + (y + 1) * span),
+        })
+      }
+    }
+  })
+  return tiles
+}
+
+// Standard face coordinates of a tile's corners in triangle-strip order, undoing the EAC warp
+function tileCorners(tile: ViewerTile, eac: boolean): [number, number][] {
+  const toFace = (t: number) => (eac ? eacToFace(t) : t)
+  const left = toFace(tile.left)
+  const top = toFace(tile.top)
+  const right = toFace(tile.right)
+  const bottom = toFace(tile.bottom)
+  return [
+    [left, top],
+    [right, top],
+    [left, bottom],
+    [right, bottom],
+  ]
+}
+
+// A tile is a flat quad, so when all its corners are in front the bounding box of their projections covers it.
+// Tiles straddling the camera plane are always counted as visible.
+function isTileVisible(face: number, corners: [number, number][], camera: Camera): boolean {
+  let minX = Infinity
+  let maxX = -Infinity
+  let minY = Infinity
+  let maxY = -Infinity
+  let behind = 0
+  for (const [uc, vc] of corners) {
+    const direction = faceDirection(face, uc, vc)
+    const depth = dot(direction, camera.forward)
+    if (depth <= 1e-6) {
+      behind++
+      continue
+    }
+    const x = dot(direction, camera.right) / (depth * camera.tanX)
+    const y = dot(direction, camera.up) / (depth * camera.tanY)
+    minX = Math.min(minX, x)
+    maxX = Math.max(maxX, x)
+    minY = Math.min(minY, y)
+    maxY = Math.max(maxY, y)
+  }
+  if (behind === corners.length) {
+    return false
+  }
+  return behind > 0 || (maxX >= -1 && minX <= 1 && maxY >= -1 && minY <= 1)
+}
+
+// Pixel position in a width x height view of the direction at yaw / pitch, or null when it is behind the camera
+export function viewToScreen(
+  view: ViewState,
+  width: number,
+  height: number,
+  yaw: number,
+  pitch: number,
+): [number, number] | null {
+  const camera = createCamera(view, width / height)
+  const direction: Vec3 = [Math.sin(yaw) * Math.cos(pitch), Math.sin(pitch), Math.cos(yaw) * Math.cos(pitch)]
+  const depth = dot(direction, camera.forward)
+  if (depth <= 1e-6) {
+    return null
+  }
+  const x = dot(direction, camera.right) / (depth * camera.tanX)
+  const y = dot(direction, camera.up) / (depth * camera.tanY)
+  return [((x + 1) / 2) * width, ((1 - y) / 2) * height]
+}
+
+// Yaw and pitch of the direction under a pixel of a width x height view
+export function screenToView(
+  view: ViewState,
+  width: number,
+  height: number,
+  x: number,
+  y: number,
+): { yaw: number; pitch: number } {
+  const camera = createCamera(view, width / height)
+  const sx = ((2 * x) / width - 1) * camera.tanX
+  const sy = (1 - (2 * y) / height) * camera.tanY
+  const direction = [0, 1, 2].map((i) => camera.forward[i] + sx * camera.right[i] + sy * camera.up[i])
+  return {
+    yaw: Math.atan2(direction[0], direction[2]),
+    pitch: Math.atan2(direction[1], Math.hypot(direction[0], direction[2])),
+  }
+}
+
+export interface PanoramaRenderer {
+  readonly mode: "webgl" | "css"
+  // Draws the view on the next animation frame; tiles that arrive later redraw it again
+  render(view: ViewState): void
+  destroy(): void
+}
+
+// Called whenever the level in use changes
+export type LevelListener = (level: TileConfig) => void
+
+const VERTEX_SHADER = `
+attribute vec3 position;
+attribute vec2 faceCoord;
+uniform vec3 right;
+uniform vec3 up;
+uniform vec3 forward;
+uniform vec2 tanHalfFov;
+varying vec2 vFaceCoord;
+
+void main() {
+  vFaceCoord = faceCoord;
+  // w is the depth, so the GPU clips whatever is behind the camera and interpolates in perspective
+  vec2 screen = vec2(dot(position, right), dot(position, up)) / tanHalfFov;
+  gl_Position = vec4(screen, 0.0, dot(position, forward));
+}
+`
+
+const FRAGMENT_SHADER = `
+#ifdef GL_FRAGMENT_PRECISION_HIGH
+precision highp float;
+#else
+precision mediump float;
+#endif
+uniform sampler2D tile;
+uniform vec3 tileRect;
+uniform bool eac;
+varying vec2 vFaceCoord;
+
+void main() {
+  vec2 stored = eac ? atan(vFaceCoord) * (4.0 / 3.14159265) : vFaceCoord;
+  gl_FragColor = texture2D(tile, (stored - tileRect.xy) / tileRect.z);
+}
+`
+
+function compileShader(gl: WebGLRenderingContext, type: number, source: string): WebGLShader {
+  const shader = gl.createShader(type)!
+  gl.shaderSource(shader, source)
+  gl.compileShader(shader)
+  if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) {
+    throw new Error(`Viewer shader failed to compile: ${gl.getShaderInfoLog(shader)}`)
+  }
+  return shader
+}
+
+function createProgram(gl: WebGLRenderingContext): WebGLProgram {
+  const program = gl.createProgram()!
+  gl.attachShader(program, compileShader(gl, gl.VERTEX_SHADER, VERTEX_SHADER))
+  gl.attachShader(program, compileShader(gl, gl.FRAGMENT_SHADER, FRAGMENT_SHADER))
+  gl.linkProgram(program)
+  if (!gl.getProgramParameter(program, gl.LINK_STATUS)) {
+    throw new Error(`Viewer shaders failed to link: ${gl.getProgramInfoLog(program)}`)
+  }
+  return program
+}
+
+const UNIFORMS = ["tile", "eac", "right", "up", "forward", "tanHalfFov", "tileRect"] as const
+type UniformName = (typeof UNIFORMS)[number]
+
+class WebGLPanoramaRenderer implements PanoramaRenderer {
+  readonly mode = "webgl"
+  private readonly program: WebGLProgram
+  // Looked up once after linking; tileRect is set for every tile of every frame
+  private readonly uniforms: Record<UniformName, WebGLUniformLocation | null>
+  private readonly buffer: WebGLBuffer
+  private readonly vertices = new Float32Array(20)
+  private readonly eac: boolean
+  private readonly base: number
+  private readonly tiles: ViewerTile[][]
+  private readonly textures = new Map<string, { texture: WebGLTexture; drawn: number }>()
+  private readonly loading = new Set<string>()
+  private readonly missing = new Set<string>()
+  private queue: string[] = []
+  private view = DEFAULT_VIEW
+  private frame = 0
+  private pendingFrame = 0
+  private level = -1
+  private destroyed = false
+
+  constructor(
+    private readonly canvas: HTMLCanvasElement,
+    private readonly gl: WebGLRenderingContext,
+    private readonly source: TileSource,
+    private readonly onLevel: LevelListener,
+  ) {
+    this.program = createProgram(gl)
+    this.uniforms = Object.fromEntries(
+      UNIFORMS.map((name) => [name, gl.getUniformLocation(this.program, name)]),
+    ) as Record<UniformName, WebGLUniformLocation | null>
+    this.buffer = gl.createBuffer()!
+    this.eac = source.projection === "eac"
+    this.base = baseLevel(source.tileConfigs)
+    this.tiles = source.tileConfigs.map((_, z) => levelTiles(source.tileConfigs, z))
+
+    gl.useProgram(this.program)
+    gl.bindBuffer(gl.ARRAY_BUFFER, this.buffer)
+    const position = gl.getAttribLocation(this.program, "position")
+    const faceCoord = gl.getAttribLocation(this.program, "faceCoord")
+    gl.enableVertexAttribArray(position)
+    gl.enableVertexAttribArray(faceCoord)
+    gl.vertexAttribPointer(position, 3, gl.FLOAT, false, 20, 0)
+    gl.vertexAttribPointer(faceCoord, 2, gl.FLOAT, false, 20, 12)
+    gl.uniform1i(this.uniforms.tile, 0)
+    gl.uniform1i(this.uniforms.eac, this.eac ? 1 : 0)
+  }
+
+  render(view: ViewState): void {
+    this.view = view
+    this.invalidate()
+  }
+
+  destroy(): void {
+    this.destroyed = true
+    cancelAnimationFrame(this.pendingFrame)
+    this.textures.forEach(({ texture }) => this.gl.deleteTexture(texture))
+    this.textures.clear()
+    this.gl.deleteBuffer(this.buffer)
+    this.gl.deleteProgram(this.program)
+    this.gl.getExtension("WEBGL_lose_context")?.loseContext()
+    this.canvas.remove()
+  }
+
+  private invalidate(): void {
+    if (!this.pendingFrame && !this.destroyed) {
+      this.pendingFrame = requestAnimationFrame(() => {
+        this.pendingFrame = 0
+        this.draw()
+      })
+    }
+  }
+
+  private draw(): void {
+    const { gl, canvas } = this
+    const scale = window.devicePixelRatio || 1
+    const width = Math.max(1, Math.round(canvas.clientWidth * scale))
+    const height = Math.max(1, Math.round(canvas.clientHeight * scale))
+    if (canvas.width !== width || canvas.height !== height) {
+      canvas.width = width
+      canvas.height = height
+    }
+    gl.viewport(0, 0, width, height)
+    gl.clearColor(0, 0, 0, 1)
+    gl.clear(gl.COLOR_BUFFER_BIT)
+
+    const camera = createCamera(this.view, width / height)
+    gl.uniform3fv(this.uniforms.right, camera.right)
+    gl.uniform3fv(this.uniforms.up, camera.up)
+    gl.uniform3fv(this.uniforms.forward, camera.forward)
+    gl.uniform2f(this.uniforms.tanHalfFov, camera.tanX, camera.tanY)
+
+    const { tileConfigs } = this.source
+    const level = levelForView(tileConfigs, this.view.fov, height)
+    if (level !== this.level) {
+      this.level = level
+      this.onLevel(tileConfigs[level])
+    }
+
+    // Coarse to fine: the base level everywhere, then whatever is loaded of the levels up to the chosen one
+    this.frame++
+    const wanted: string[] = []
+    const baseSize = tileConfigs[this.base].size
+    const levels = [
+      this.base,
+      ...viewLevels(tileConfigs).filter(
+        (z) => z !== this.base && tileConfigs[z].size > baseSize && tileConfigs[z].size <= tileConfigs[level].size,
+      ),
+    ]
+    for (const z of levels) {
+      for (const tile of this.tiles[z]) {
+        const corners = tileCorners(tile, this.eac)
+        const visible = isTileVisible(tile.face, corners, camera)
+        const entry = this.textures.get(tile.path)
+        if (entry && visible) {
+          entry.drawn = this.frame
+          this.drawTile(tile, corners, entry.texture)
+        } else if (!entry && (z === this.base || (z === level && visible))) {
+          wanted.push(tile.path)
+        }
+      }
+    }
+
+    this.queue = wanted
+    this.pump()
+    this.evict()
+  }
+
+  private drawTile(tile: ViewerTile, corners: [number, number][], texture: WebGLTexture): void {
+    const { gl } = this
+    corners.forEach(([uc, vc], i) => {
+      this.vertices.set([...faceDirection(tile.face, uc, vc), uc, vc], i * 5)
+    })
+    gl.bufferData(gl.ARRAY_BUFFER, this.vertices, gl.DYNAMIC_DRAW)
+    gl.uniform3f(this.uniforms.tileRect, tile.left, tile.top, tile.span)
+    gl.bindTexture(gl.TEXTURE_2D, texture)
+    gl.drawArrays(gl.TRIANGLE_STRIP, 0, 4)
+  }
+
+  private pump(): void {
+    while (this.loading.size < MAX_CONCURRENT_LOADS && this.queue.length > 0) {
+      const path = this.queue.shift()!
+      if (this.textures.has(path) || this.loading.has(path) || this.missing.has(path)) continue
+
+      this.loading.add(path)
+      this.load(path)
+        .catch((error) => {
+          console.error("[v0] Viewer failed to load tile", path, error)
+          this.missing.add(path)
+        })
+        .finally(() => {
+          this.loading.delete(path)
+          this.pump()
+          this.invalidate()
+        })
+    }
+  }
+
+  private async load(path: string): Promise<void> {
+    const blob = await this.source.loadTile(path)
+    if (!blob) {
+      this.missing.add(path)
+      return
+    }
+    const bitmap = await createImageBitmap(blob)
+    if (this.destroyed) {
+      bitmap.close()
+      return
+    }
+
+    const { gl } = this
+    const texture = gl.createTexture()!
+    gl.bindTexture(gl.TEXTURE_2D, texture)
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE)
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE)
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.LINEAR)
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.LINEAR)
+    gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, gl.RGBA, gl.UNSIGNED_BYTE, bitmap)
+    bitmap.close()
+    this.textures.set(path, { texture, drawn: 0 })
+  }
+
+  private evict(): void {
+    const basePaths = new Set(this.tiles[this.base].map((tile) => tile.path))
+    const candidates = Array.from(this.textures.entries()).filter(
+      ([path, entry]) => !basePaths.has(path) && entry.drawn < this.frame,
+    )
+    const excess = this.textures.size - basePaths.size - MAX_TEXTURES
+    if (excess <= 0) return
+
+    candidates.sort((a, b) => a[1].drawn - b[1].drawn)
+    for (const [path, { texture }] of candidates.slice(0, excess)) {
+      this.gl.deleteTexture(texture)
+      this.textures.delete(path)
+    }
+  }
+}
+
+// Resamples an EAC face into standard face coordinates, since CSS can only map a face linearly
+function unwarpEACFace(canvas: HTMLCanvasElement): void {
+  const ctx = canvas.getContext("2d")!
+  const size = canvas.width
+  const stored = ctx.getImageData(0, 0, size, size)
+  const standard = ctx.createImageData(size, size)
+  const index = (c: number) => Math.max(0, Math.min(size - 1, Math.floor(((faceToEAC(c) + 1) / 2) * size)))
+  const columns = Array.from({ length: size }, (_, i) => index(((i + 0.5) / size) * 2 - 1))
+
+  for (let y = 0; y < size; y++) {
+    const row = columns[y] * size
+    for (let x = 0; x < size; x++) {
+      const from = (row + columns[x]) * 4
+      const to = (y * size + x) * 4
+      standard.data[to] = stored.data[from]
+      standard.data[to + 1] = stored.data[from + 1]
+      standard.data[to + 2] = stored.data[from + 2]
+      standard.data[to + 3] = 255
+    }
+  }
+  ctx.putImageData(standard, 0, 0)
+}
+
+function cssVector([x, y, z]: Vec3, scale = 1): string {
+  // CSS has y pointing down and z towards the viewer
+  return `${x * scale}, ${-y * scale}, ${-z * scale}`
+}
+
+// Maps a face element's pixels, measured from its centre, onto the cube face at distance size / 2
+function cssFaceTransform(face: number, size: number): string {
+  const center = faceDirection(face, 0, 0)
+  const across = faceDirection(face, 1, 0).map((v, i) => v - center[i]) as Vec3
+  const down = faceDirection(face, 0, 1).map((v, i) => v - center[i]) as Vec3
+  // Slightly oversized faces hide the hairline seams between them
+  const overlap = 1.002
+  const columns = [cssVector(across, overlap), cssVector(down, overlap), cssVector(center), cssVector(center, size / 2)]
+  return `matrix3d(${columns.join(", 0, ")}, 1)`
+}
+
+class CSSPanoramaRenderer implements PanoramaRenderer {
+  readonly mode = "css"
+  private readonly root: HTMLDivElement
+  private readonly cube: HTMLDivElement
+  private readonly level: TileConfig
+  private view = DEFAULT_VIEW
+  private pendingFrame = 0
+  private reported = false
+  private destroyed = false
+
+  constructor(
+    container: HTMLElement,
+    private readonly source: TileSource,
+    private readonly onLevel: LevelListener,
+  ) {
+    const { tileConfigs } = source
+    const levels = viewLevels(tileConfigs).filter((z) => tileConfigs[z].size <= CSS_FACE_SIZE)
+    const z = levels.length > 0 ? levels[levels.length - 1] : baseLevel(tileConfigs)
+    this.level = tileConfigs[z]
+
+    this.root = document.createElement("div")
+    this.root.style.cssText = "position: absolute; inset: 0; overflow: hidden;"
+    this.cube = document.createElement("div")
+    this.cube.style.cssText = "position: absolute; left: 50%; top: 50%; transform-style: preserve-3d;"
+    this.root.appendChild(this.cube)
+    container.appendChild(this.root)
+
+    const size = this.level.size
+    const faces = FACE_NAMES.map((_, face) => {
+      const canvas = document.createElement("canvas")
+      canvas.width = canvas.height = size
+      canvas.style.cssText =
+        `position: absolute; left: ${-size / 2}px; top: ${-size / 2}px; width: ${size}px; height: ${size}px; ` +
+        `transform: ${cssFaceTransform(face, size)};`
+      this.cube.appendChild(canvas)
+      return canvas
+    })
+    faces.forEach((canvas, face) =>
+      this.loadFace(canvas, z, face).catch((error) => console.error("[v0] Viewer failed to load face", face, error)),
+    )
+  }
+
+  render(view: ViewState): void {
+    this.view = view
+    if (!this.pendingFrame && !this.destroyed) {
+      this.pendingFrame = requestAnimationFrame(() => {
+        this.pendingFrame = 0
+        this.draw()
+      })
+    }
+  }
+
+  destroy(): void {
+    this.destroyed = true
+    cancelAnimationFrame(this.pendingFrame)
+    this.root.remove()
+  }
+
+  private draw(): void {
+    if (!this.reported) {
+      this.reported = true
+      this.onLevel(this.level)
+    }
+    // The eye sits `perspective` pixels in front of the screen, moved to the centre of the cube
+    const perspective = this.root.clientHeight / 2 / Math.tan(this.view.fov / 2)
+    this.root.style.perspective = `${perspective}px`
+    this.cube.style.transform =
+      `translateZ(${perspective}px) rotateX(${this.view.pitch}rad) rotateY(${this.view.yaw}rad)`
+  }
+
+  private async loadFace(canvas: HTMLCanvasElement, z: number, face: number): Promise<void> {
+    const ctx = canvas.getContext("2d")!
+    const { tileSize, size } = this.level
+    const tilesPerSide = Math.ceil(size / tileSize)
+    for (let y = 0; y < tilesPerSide; y++) {
+      for (let x = 0; x < tilesPerSide; x++) {
+        const blob = await this.source.loadTile(tilePath({ z, face: FACE_NAMES[face], y, x }))
+        if (!blob || this.destroyed) continue
+        const bitmap = await createImageBitmap(blob)
+        ctx.drawImage(bitmap, x * tileSize, y * tileSize)
+        bitmap.close()
+      }
+    }
+    if (this.source.projection === "eac" && !this.destroyed) {
+      unwarpEACFace(canvas)
+    }
+  }
+}
+
+// Fills `container`, which should be positioned and sized, with the best renderer the browser supports
+export function createPanoramaRenderer(
+  container: HTMLElement,
+  source: TileSource,
+  onLevel: LevelListener,
+): PanoramaRenderer {
+  const canvas = document.createElement("canvas")
+  canvas.style.cssText = "position: absolute; inset: 0; width: 100%; height: 100%;"
+  const gl = canvas.getContext("webgl", { alpha: false, antialias: false })
+  if (gl) {
+    container.appendChild(canvas)
+    try {
+      return new WebGLPanoramaRenderer(canvas, gl, source, onLevel)
+    } catch (error) {
+      console.error("[v0] WebGL viewer failed, falling back to CSS:", error)
+      canvas.remove()
+    }
+  }
+  return new CSSPanoramaRenderer(container, source, onLevel)
+}